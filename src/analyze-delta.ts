@@ -0,0 +1,177 @@
+/**
+ * Before/after complexity comparison for unified diffs.
+ *
+ * Scores the removed and added side of a change independently, so a
+ * revision can be judged by how it moved nesting rather than by the
+ * added lines alone.
+ */
+
+import type {
+  ComplexityResultVerbose,
+  ComplexityResultWithLines,
+  DiffOptions,
+  FileComplexityResult,
+} from './types.js';
+import type { ParsedDiffFile } from './diff-parser.js';
+import { parseDiffFiles, sharedProfile, sharedThresholdOverrides } from './diff-parser.js';
+import { parseHunkHeader } from './unified-diff.js';
+import { buildResult } from './result-builder.js';
+
+/** Options for analyzeDiffDelta */
+export type DeltaOptions = Omit<DiffOptions, 'include' | 'verbose'>;
+
+/** Before/after comparison of the removed and added side of a change */
+export interface ComplexityDelta<T extends ComplexityResultVerbose = ComplexityResultVerbose> {
+  /** Complexity of the removed lines */
+  before: T;
+  /** Complexity of the added lines */
+  after: T;
+  /** after.score - before.score */
+  scoreDelta: number;
+  /** after.variance - before.variance */
+  varianceDelta: number;
+  /** after.max - before.max */
+  maxDelta: number;
+  /** True when the change raises the score or the maximum depth */
+  regression: boolean;
+}
+
+/** Delta for a single hunk */
+export interface HunkComplexityDelta<
+  T extends ComplexityResultVerbose = ComplexityResultVerbose,
+> extends ComplexityDelta<T> {
+  /** 0-indexed hunk within the file */
+  hunk: number;
+  /** First line of the hunk in the old file (null if the header is missing) */
+  oldStart: number | null;
+  /** First line of the hunk in the new file (null if the header is missing) */
+  newStart: number | null;
+}
+
+/** Delta for a single file, with its hunks */
+export interface FileComplexityDelta<T extends ComplexityResultVerbose = ComplexityResultVerbose>
+  extends ComplexityDelta<T>, Omit<FileComplexityResult, 'result'> {
+  hunks: HunkComplexityDelta<T>[];
+}
+
+/** Delta for a whole diff (from analyzeDiffDelta) */
+export interface DiffComplexityDelta<
+  T extends ComplexityResultVerbose = ComplexityResultVerbose,
+> extends ComplexityDelta<T> {
+  files: FileComplexityDelta<T>[];
+}
+
+/** Language profile and threshold directives of the lines compared */
+type DeltaScope = Pick<ParsedDiffFile, 'profile' | 'thresholdOverrides'>;
+
+function buildDelta(
+  lines: ParsedDiffFile['lines'],
+  options: DeltaOptions,
+  scope: DeltaScope
+): ComplexityDelta {
+  const buildOptions = {
+    verbose: true as const,
+    includeLines: options.includeLines ?? false,
+    userThresholds: options.thresholds,
+    percentiles: options.percentiles,
+    scorer: options.scorer,
+    levels: options.levels,
+    rules: options.rules,
+    language: scope.profile,
+    thresholdOverrides: scope.thresholdOverrides,
+  };
+  const before = buildResult(
+    lines.filter((l) => l.side === 'old'),
+    buildOptions
+  );
+  const after = buildResult(
+    lines.filter((l) => l.side === 'new'),
+    buildOptions
+  );
+
+  const scoreDelta = after.score - before.score;
+  const maxDelta = after.max - before.max;
+
+  return {
+    before,
+    after,
+    scoreDelta,
+    varianceDelta: after.variance - before.variance,
+    maxDelta,
+    regression: scoreDelta > 0 || maxDelta > 0,
+  };
+}
+
+function buildHunkDeltas(parsed: ParsedDiffFile, options: DeltaOptions) {
+  const ranges = parsed.file.lines.filter((l) => l.startsWith('@@')).map(parseHunkHeader);
+  const lastLineHunk = parsed.lines.reduce((last, l) => Math.max(last, l.hunk ?? 0), -1);
+  const hunkCount = Math.max(ranges.length, lastLineHunk + 1);
+
+  return Array.from({ length: hunkCount }, (_, hunk) => ({
+    hunk,
+    oldStart: ranges[hunk]?.oldStart ?? null,
+    newStart: ranges[hunk]?.newStart ?? null,
+    ...buildDelta(
+      parsed.lines.filter((l) => (l.hunk ?? 0) === hunk),
+      options,
+      parsed
+    ),
+  }));
+}
+
+function buildFileDelta(parsed: ParsedDiffFile, options: DeltaOptions) {
+  const { file } = parsed;
+
+  return {
+    path: file.path,
+    oldPath: file.oldPath,
+    newPath: file.newPath,
+    status: file.status,
+    binary: file.binary,
+    ...buildDelta(parsed.lines, options, parsed),
+    hunks: buildHunkDeltas(parsed, options),
+  };
+}
+
+/**
+ * Compare the complexity of the removed and added side of a unified diff.
+ *
+ * Deleted lines are scored as `before`, added lines as `after`, for the
+ * whole diff, each file and each hunk. Both sides share the indent unit
+ * detected for their file. A delta is flagged as a `regression` when the
+ * change raises the score or the maximum depth.
+ *
+ * @example
+ * ```typescript
+ * const delta = analyzeDiffDelta(diff);
+ * console.log(`Nesting ${delta.before.score.toFixed(1)} -> ${delta.after.score.toFixed(1)}`);
+ * if (delta.regression) {
+ *   console.warn('This change makes the code deeper');
+ * }
+ * ```
+ */
+export function analyzeDiffDelta(
+  diff: string,
+  options?: DeltaOptions & { includeLines?: false }
+): DiffComplexityDelta;
+
+export function analyzeDiffDelta(
+  diff: string,
+  options: DeltaOptions & { includeLines: true }
+): DiffComplexityDelta<ComplexityResultWithLines>;
+
+export function analyzeDiffDelta(diff: string, options: DeltaOptions = {}): DiffComplexityDelta {
+  const parsedFiles = parseDiffFiles(diff, 'both', options);
+
+  return {
+    ...buildDelta(
+      parsedFiles.flatMap((f) => f.lines),
+      options,
+      {
+        profile: sharedProfile(parsedFiles),
+        thresholdOverrides: sharedThresholdOverrides(parsedFiles),
+      }
+    ),
+    files: parsedFiles.map((parsed) => buildFileDelta(parsed, options)),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Streaming complexity analysis for unified diffs too large to hold in
+ * memory.
+ */
+
+import type { ComplexityResultVerbose, DiffOptions } from './types.js';
+import type { StreamSource } from './line-reader.js';
+import { readLines } from './line-reader.js';
+import { createDiffSplitter } from './unified-diff.js';
+import { parseDiffFile } from './diff-parser.js';
+import { createDiffTally } from './stream-tally.js';
+import { buildSummaryResult } from './result-builder.js';
+
+/** Options for analyzeDiffComplexityStream */
+export type DiffStreamOptions = Omit<DiffOptions, 'verbose' | 'includeLines' | 'blocks'>;
+
+/**
+ * Analyze complexity of a unified diff read from a stream.
+ *
+ * Gives the same verbose result as analyzeDiffComplexity on the full
+ * diff. Each file's section is parsed as soon as the next file starts and
+ * only its depths are kept, so memory stays bounded by the largest file
+ * in the diff.
+ *
+ * @example
+ * ```typescript
+ * import { spawn } from 'node:child_process';
+ *
+ * const git = spawn('git', ['diff', 'main...HEAD']);
+ * const result = await analyzeDiffComplexityStream(git.stdout);
+ * console.log(result.score, result.lineCount);
+ * ```
+ */
+export async function analyzeDiffComplexityStream(
+  source: StreamSource,
+  options: DiffStreamOptions = {}
+): Promise<ComplexityResultVerbose> {
+  const { include = 'additions' } = options;
+  const tally = createDiffTally();
+  const splitter = createDiffSplitter((file) => tally.add(parseDiffFile(file, include, options)));
+
+  for await (const line of readLines(source)) splitter.push(line);
+  splitter.end();
+
+  return buildSummaryResult(tally.summary(options.percentiles), {
+    userThresholds: options.thresholds,
+    language: tally.profile(),
+    thresholdOverrides: tally.thresholdOverrides(),
+    scorer: options.scorer,
+    levels: options.levels,
+    rules: options.rules,
+  });
+}
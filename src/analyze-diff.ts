@@ -10,8 +10,14 @@ import type {
   ComplexityResult,
   ComplexityResultVerbose,
   ComplexityResultWithLines,
+  DiffComplexityByFile,
 } from './types.js';
-import { parseDiff } from './parser.js';
+import {
+  parseDiff,
+  parseDiffFiles,
+  sharedProfile,
+  sharedThresholdOverrides,
+} from './diff-parser.js';
 import { buildResult } from './result-builder.js';
 
 /**
@@ -43,12 +49,97 @@ export function analyzeDiffComplexity(
   options: DiffOptions & { includeLines: true }
 ): ComplexityResultWithLines;
 
+export function analyzeDiffComplexity(diff: string, options?: DiffOptions): ComplexityResult;
+
 export function analyzeDiffComplexity(
   diff: string,
   options: DiffOptions = {}
 ): ComplexityResult | ComplexityResultVerbose | ComplexityResultWithLines {
   const { include = 'additions', verbose = false, includeLines = false, thresholds } = options;
-  const { lines } = parseDiff(diff, include, { commentPattern: options.commentPattern });
+  const { lines, profile, thresholdOverrides } = parseDiff(diff, include, options);
+
+  return buildResult(lines, {
+    verbose,
+    includeLines,
+    userThresholds: thresholds,
+    percentiles: options.percentiles,
+    scorer: options.scorer,
+    levels: options.levels,
+    rules: options.rules,
+    language: profile,
+    thresholdOverrides,
+  });
+}
+
+/**
+ * Analyze complexity of a unified diff, broken down by file.
+ *
+ * Each file is scored on its own changed lines; `aggregate` scores every
+ * changed line together, matching analyzeDiffComplexity. Binary files are
+ * listed with a zero score so callers can still see they changed. With
+ * `language: 'auto'`, each file is measured with the profile for its path.
+ *
+ * @example
+ * ```typescript
+ * const { files, aggregate } = analyzeDiffComplexityByFile(diff);
+ * for (const file of files.filter((f) => f.result.level === 'high')) {
+ *   console.warn(`${file.path}: ${file.result.reason}`);
+ * }
+ * ```
+ */
+export function analyzeDiffComplexityByFile(
+  diff: string,
+  options?: DiffOptions & { verbose?: false; includeLines?: false }
+): DiffComplexityByFile<ComplexityResult>;
+
+export function analyzeDiffComplexityByFile(
+  diff: string,
+  options: DiffOptions & { verbose: true; includeLines?: false }
+): DiffComplexityByFile<ComplexityResultVerbose>;
+
+export function analyzeDiffComplexityByFile(
+  diff: string,
+  options: DiffOptions & { includeLines: true }
+): DiffComplexityByFile<ComplexityResultWithLines>;
+
+export function analyzeDiffComplexityByFile(
+  diff: string,
+  options?: DiffOptions
+): DiffComplexityByFile<ComplexityResult>;
+
+export function analyzeDiffComplexityByFile(
+  diff: string,
+  options: DiffOptions = {}
+): DiffComplexityByFile {
+  const { include = 'additions', verbose = false, includeLines = false, thresholds } = options;
+  const parsedFiles = parseDiffFiles(diff, include, options);
+  const buildOptions = {
+    verbose,
+    includeLines,
+    userThresholds: thresholds,
+    percentiles: options.percentiles,
+    scorer: options.scorer,
+    levels: options.levels,
+    rules: options.rules,
+  };
+
+  const files = parsedFiles.map(({ file, lines, profile, thresholdOverrides }) => ({
+    path: file.path,
+    oldPath: file.oldPath,
+    newPath: file.newPath,
+    status: file.status,
+    binary: file.binary,
+    result: buildResult(lines, { ...buildOptions, language: profile, thresholdOverrides }),
+  }));
+
+  const aggregate = buildResult(
+    parsedFiles.flatMap((f) => f.lines),
+    {
+      ...buildOptions,
+      language: sharedProfile(parsedFiles),
+      thresholdOverrides: sharedThresholdOverrides(parsedFiles),
+    }
+  );
 
-  return buildResult(lines, { verbose, includeLines, userThresholds: thresholds });
+  return { files, aggregate };
 }
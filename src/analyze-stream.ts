@@ -0,0 +1,54 @@
+/**
+ * Streaming complexity analysis for inputs too large to hold in memory.
+ */
+
+import type { AnalyzeOptions, ComplexityResultVerbose } from './types.js';
+import type { StreamSource } from './line-reader.js';
+import { readLines } from './line-reader.js';
+import { createContentTally } from './stream-tally.js';
+import { buildSummaryResult } from './result-builder.js';
+import { applyLanguageProfile, resolveLanguage } from './languages.js';
+
+/** Options for analyzeComplexityStream */
+export type StreamOptions = Omit<
+  AnalyzeOptions,
+  'verbose' | 'includeLines' | 'blocks' | 'normalizeContinuations' | 'contentChecks'
+>;
+
+/**
+ * Analyze indentation-based complexity of source code read from a stream.
+ *
+ * Gives the same verbose result as analyzeComplexity on the full text,
+ * without holding it, except that directives are not read and content
+ * checks are not run: generated or minified input is scored like any
+ * other. Lines are tallied as they arrive, and the median comes from the
+ * depth histogram. Memory stays bounded by the longest line and the
+ * number of distinct indent widths.
+ *
+ * @example
+ * ```typescript
+ * import fs from 'node:fs';
+ *
+ * const result = await analyzeComplexityStream(fs.createReadStream('bundle.js'), {
+ *   filename: 'bundle.js',
+ * });
+ * console.log(result.score, result.median);
+ * ```
+ */
+export async function analyzeComplexityStream(
+  source: StreamSource,
+  options: StreamOptions = {}
+): Promise<ComplexityResultVerbose> {
+  const profile = resolveLanguage(options.language, options.filename);
+  const tally = createContentTally(applyLanguageProfile(options, profile));
+
+  for await (const line of readLines(source)) tally.add(line);
+
+  return buildSummaryResult(tally.summary(options.percentiles), {
+    userThresholds: options.thresholds,
+    language: profile,
+    scorer: options.scorer,
+    levels: options.levels,
+    rules: options.rules,
+  });
+}
@@ -4,12 +4,15 @@
 
 import type {
   AnalyzeOptions,
+  ComplexityLevel,
   ComplexityResult,
   ComplexityResultVerbose,
+  ComplexityResultWithBlocks,
   ComplexityResultWithLines,
 } from './types.js';
-import { parseContent } from './parser.js';
-import { buildResult } from './result-builder.js';
+import { parseSource } from './source.js';
+import { buildResult, measuredLines } from './result-builder.js';
+import { analyzeBlocks } from './blocks.js';
 
 /**
  * Analyze indentation-based complexity of source code.
@@ -24,29 +27,82 @@ import { buildResult } from './result-builder.js';
  *
  * const detailed = analyzeComplexity(code, { verbose: true });
  * console.log(detailed.variance, detailed.max);
+ *
+ * // Comment syntax and thresholds of the Python profile
+ * analyzeComplexity(code, { filename: 'app.py' });
+ *
+ * // @generated files and lockfiles are skipped
+ * const { skipped, reason } = analyzeComplexity(code, { filename: 'yarn.lock' });
+ *
+ * // Worst functions first
+ * const { blocks } = analyzeComplexity(code, { blocks: true });
+ * console.log(blocks[0]?.header, blocks[0]?.score);
  * ```
  */
-export function analyzeComplexity(
+export function analyzeComplexity<L extends string = ComplexityLevel>(
+  content: string,
+  options?: AnalyzeOptions<L> & { verbose?: false; includeLines?: false; blocks?: false }
+): ComplexityResult<L>;
+
+export function analyzeComplexity<L extends string = ComplexityLevel>(
   content: string,
-  options?: AnalyzeOptions & { verbose?: false; includeLines?: false }
-): ComplexityResult;
+  options: AnalyzeOptions<L> & { includeLines: true; blocks: true | number }
+): ComplexityResultWithLines<L> & ComplexityResultWithBlocks<L>;
 
-export function analyzeComplexity(
+export function analyzeComplexity<L extends string = ComplexityLevel>(
   content: string,
-  options: AnalyzeOptions & { verbose: true; includeLines?: false }
-): ComplexityResultVerbose;
+  options: AnalyzeOptions<L> & { blocks: true | number }
+): ComplexityResultWithBlocks<L>;
 
-export function analyzeComplexity(
+export function analyzeComplexity<L extends string = ComplexityLevel>(
   content: string,
-  options: AnalyzeOptions & { includeLines: true }
-): ComplexityResultWithLines;
+  options: AnalyzeOptions<L> & { verbose: true; includeLines?: false }
+): ComplexityResultVerbose<L>;
 
-export function analyzeComplexity(
+export function analyzeComplexity<L extends string = ComplexityLevel>(
   content: string,
-  options: AnalyzeOptions = {}
-): ComplexityResult | ComplexityResultVerbose | ComplexityResultWithLines {
-  const { verbose = false, includeLines = false, thresholds } = options;
-  const { lines } = parseContent(content, { commentPattern: options.commentPattern });
+  options: AnalyzeOptions<L> & { includeLines: true }
+): ComplexityResultWithLines<L>;
+
+export function analyzeComplexity<L extends string = ComplexityLevel>(
+  content: string,
+  options?: AnalyzeOptions<L>
+): ComplexityResult<L>;
+
+export function analyzeComplexity<L extends string>(
+  content: string,
+  options: AnalyzeOptions<L> = {}
+): ComplexityResult<L> | ComplexityResultVerbose<L> | ComplexityResultWithLines<L> {
+  const { verbose = false, includeLines = false, blocks = false, thresholds, levels } = options;
+  const { lines, profile, thresholdOverrides, skipped, excludedLines } = parseSource(
+    content,
+    options
+  );
+  const scoreOptions = {
+    userThresholds: thresholds,
+    levels,
+    rules: options.rules,
+    language: profile,
+    scorer: options.scorer,
+    thresholdOverrides,
+  };
+
+  const result = buildResult(lines, {
+    ...scoreOptions,
+    verbose: verbose || blocks !== false,
+    includeLines,
+    percentiles: options.percentiles,
+    excludedLines,
+  });
+  if (skipped) Object.assign(result, { skipped: skipped.check, reason: skipped.reason });
+  if (blocks === false) return result;
 
-  return buildResult(lines, { verbose, includeLines, userThresholds: thresholds });
+  return {
+    ...result,
+    blocks: analyzeBlocks(measuredLines(lines), {
+      ...scoreOptions,
+      depth: blocks === true ? undefined : blocks,
+      percentiles: options.percentiles,
+    }),
+  } as ComplexityResultWithBlocks<L>;
 }
@@ -2,8 +2,59 @@
  * Score-based complexity assessment.
  */
 
-import type { ComplexityLevel, Thresholds } from './types.js';
+import type { ComplexityLevel, ComplexityResult, Thresholds } from './types.js';
+import type { Scorer } from './scorers.js';
+import type { AssessmentRule } from './rules.js';
 import { DEFAULT_THRESHOLDS } from './constants.js';
+import { resolveScorer, scorerInput } from './scorers.js';
+import { applyRules, ruleMetrics } from './rules.js';
+
+/** One named level of a complexity scale */
+export interface LevelDefinition<L extends string = string> {
+  name: L;
+  /** Score at or above which the level applies. Required for every level
+   * but the first, which applies below all of them. */
+  threshold?: number;
+  /** Reason reported for the level. `{score}`, `{level}` and `{threshold}`
+   * are filled in. Default: "Score {score} exceeds {level} threshold
+   * ({threshold})", or a note on simple code for the first level */
+  message?: string;
+}
+
+/** Complexity levels, from least to most severe */
+export type LevelScale<L extends string = string> = readonly LevelDefinition<L>[];
+
+/** Options deciding a result's score and level */
+export interface AssessmentOptions<L extends string = ComplexityLevel> {
+  /** Scorer id (see registerScorer) or a custom scorer. Default: 'squared' */
+  scorer?: string | Scorer;
+  /** Custom thresholds for assessment levels */
+  thresholds?: Partial<Thresholds>;
+  /** Named levels from least to most severe, replacing the low / medium /
+   * high scale and `thresholds` (see assessComplexity) */
+  levels?: LevelScale<L>;
+  /** Rules raising the level when other metrics reach their limits, e.g.
+   * `{ level: 'high', when: { max: 7, score: 10 } }` */
+  rules?: AssessmentRule<L>[];
+}
+
+/** Scale and rules that a score is assessed with */
+export interface AssessmentScale<L extends string> {
+  levels: LevelScale<L>;
+  rules?: readonly AssessmentRule<L>[];
+}
+
+/** How measured lines are scored and assessed */
+export interface ScoreOptions<L extends string = ComplexityLevel> extends Omit<
+  AssessmentOptions<L>,
+  'thresholds'
+> {
+  userThresholds?: Partial<Thresholds>;
+  /** Language profile, whose thresholds apply under the user's */
+  language?: { thresholds?: Partial<Thresholds> };
+  /** Thresholds set by directives in the code, by level name, over all others */
+  thresholdOverrides?: Record<string, number>;
+}
 
 /**
  * Merge user thresholds with defaults.
@@ -16,28 +67,203 @@ export function resolveThresholds(userThresholds?: Partial<Thresholds>): Thresho
 }
 
 /**
- * Determine complexity level from score.
+ * Merge user thresholds over the scorer's, or else the language profile's
+ * (those are calibrated for the default scorer), and over the defaults.
+ */
+export function scorerThresholds(
+  scorer: Scorer,
+  options: Pick<ScoreOptions<string>, 'userThresholds' | 'language'>
+): Thresholds {
+  const base = scorer.thresholds ?? options.language?.thresholds;
+  return resolveThresholds(base ? { ...base, ...options.userThresholds } : options.userThresholds);
+}
+
+/**
+ * The low / medium / high scale of two thresholds.
+ */
+export function levelsFromThresholds(thresholds: Thresholds): LevelScale<ComplexityLevel> {
+  return [
+    { name: 'low' },
+    { name: 'medium', threshold: thresholds.medium },
+    { name: 'high', threshold: thresholds.high },
+  ];
+}
+
+/** The default low / medium / high scale */
+export const DEFAULT_LEVELS = levelsFromThresholds(DEFAULT_THRESHOLDS);
+
+/**
+ * Position of a level on a scale, from 0 for the least severe.
+ *
+ * @returns -1 for a level not on the scale
+ */
+export function levelRank(level: string, levels: LevelScale<string> = DEFAULT_LEVELS): number {
+  return levels.findIndex((definition) => definition.name === level);
+}
+
+/**
+ * The default level that a level of a scale stands for, for outputs with
+ * fixed severities (SARIF, the language server): the first level is low,
+ * the last high and any between them medium.
+ *
+ * @returns undefined for a level not on the scale
+ */
+export function levelSeverity(
+  level: string,
+  levels: LevelScale<string> = DEFAULT_LEVELS
+): ComplexityLevel | undefined {
+  const rank = levelRank(level, levels);
+  if (rank === -1) return undefined;
+  if (rank === 0) return 'low';
+  return rank === levels.length - 1 ? 'high' : 'medium';
+}
+
+/**
+ * Whether a level is at or above a minimum level of its scale. A low /
+ * medium / high minimum that is not on the scale is compared with where
+ * the level falls on it (see levelSeverity).
+ */
+export function levelReaches(
+  level: string,
+  minimum: string,
+  levels: LevelScale<string> = DEFAULT_LEVELS
+): boolean {
+  const onScale = levelRank(minimum, levels) !== -1;
+  const rank = onScale
+    ? levelRank(level, levels)
+    : levelRank(levelSeverity(level, levels) ?? '', DEFAULT_LEVELS);
+  const minimumRank = levelRank(minimum, onScale ? levels : DEFAULT_LEVELS);
+  return minimumRank !== -1 && rank >= minimumRank;
+}
+
+const DEFAULT_MESSAGE = 'Score {score} exceeds {level} threshold ({threshold})';
+const DEFAULT_FIRST_MESSAGE = 'Score indicates simple, low-nesting code';
+
+/**
+ * Find the level a score reaches: the last level whose threshold is at or
+ * below the score, else the first level.
+ */
+function findLevel<L extends string>(score: number, levels: LevelScale<L>): LevelDefinition<L> {
+  const [first, ...rest] = levels;
+  if (!first) throw new RangeError('levels must name at least one level');
+
+  let reached = first;
+  for (const level of rest) {
+    if (level.threshold === undefined) {
+      throw new RangeError(`Level ${level.name} needs a threshold`);
+    }
+    if (score >= level.threshold) reached = level;
+  }
+  return reached;
+}
+
+/**
+ * Determine complexity level from score, on the low / medium / high scale
+ * of two thresholds or on a scale of named levels.
+ *
+ * @throws RangeError if the scale is empty or a level after the first has
+ *   no threshold
+ *
+ * @example
+ * ```typescript
+ * const levels = [
+ *   { name: 'ok' },
+ *   { name: 'watch', threshold: 3 },
+ *   { name: 'refactor', threshold: 6, message: 'Score {score}: plan a refactoring' },
+ *   { name: 'blocker', threshold: 12 },
+ * ] as const;
+ * assessComplexity(7.5, levels).level; // 'refactor'
+ * ```
  */
 export function assessComplexity(
   score: number,
   thresholds: Thresholds
-): { level: ComplexityLevel; reason: string } {
-  if (score >= thresholds.high) {
-    return {
-      level: 'high',
-      reason: `Score ${score.toFixed(1)} exceeds high threshold (${thresholds.high})`,
-    };
-  }
+): { level: ComplexityLevel; reason: string };
 
-  if (score >= thresholds.medium) {
-    return {
-      level: 'medium',
-      reason: `Score ${score.toFixed(1)} exceeds medium threshold (${thresholds.medium})`,
-    };
-  }
+export function assessComplexity<L extends string>(
+  score: number,
+  levels: LevelScale<L>
+): { level: L; reason: string };
+
+export function assessComplexity(
+  score: number,
+  scale: Thresholds | LevelScale
+): { level: string; reason: string } {
+  const levels = Array.isArray(scale) ? scale : levelsFromThresholds(scale as Thresholds);
+  const level = findLevel(score, levels);
+  const template = level.message ?? (level === levels[0] ? DEFAULT_FIRST_MESSAGE : DEFAULT_MESSAGE);
 
   return {
-    level: 'low',
-    reason: 'Score indicates simple, low-nesting code',
+    level: level.name,
+    reason: template
+      .replaceAll('{score}', score.toFixed(1))
+      .replaceAll('{level}', level.name)
+      .replaceAll('{threshold}', String(level.threshold ?? '')),
   };
 }
+
+/**
+ * The scale a result is assessed on: the `levels` given, else the levels
+ * of the merged thresholds (see scorerThresholds), with the thresholds of
+ * levels named by directives replaced.
+ */
+export function resolveLevels<L extends string>(
+  scorer: Scorer,
+  options: ScoreOptions<L>
+): LevelScale<L> {
+  // Without levels, L is the default ComplexityLevel
+  const levels =
+    options.levels ?? (levelsFromThresholds(scorerThresholds(scorer, options)) as LevelScale<L>);
+  const overrides = options.thresholdOverrides;
+  if (!overrides) return levels;
+
+  return levels.map((level, i) => {
+    const threshold = overrides[level.name];
+    return i === 0 || threshold === undefined ? level : { ...level, threshold };
+  });
+}
+
+/**
+ * Assess a score on a scale, then apply the rules to the metrics of the
+ * measured lines.
+ *
+ * @param score - Score from the scorer
+ * @param histogram - Measured lines by depth
+ * @param options - Scale and rules
+ */
+export function assessMetrics<L extends string>(
+  score: number,
+  histogram: Record<number, number>,
+  options: AssessmentScale<L>
+): { level: L; reason: string } {
+  const { levels, rules } = options;
+  const assessment = assessComplexity(score, levels);
+  if (!rules?.length) return assessment;
+
+  return applyRules(assessment, ruleMetrics(histogram, score, rules), {
+    rules,
+    levels: levels.map((level) => level.name),
+  });
+}
+
+/**
+ * Score measured lines and assess the score.
+ *
+ * @param histogram - Measured lines by depth
+ * @param depths - Depths in source order, when they were kept
+ * @param options - Scorer, thresholds or levels, and rules
+ */
+export function assessDepths<L extends string = ComplexityLevel>(
+  histogram: Record<number, number>,
+  depths: readonly number[] | undefined,
+  options: ScoreOptions<L>
+): ComplexityResult<L> {
+  const scorer = resolveScorer(options.scorer);
+  const score = scorer.score(scorerInput(histogram, depths));
+  const { level, reason } = assessMetrics(score, histogram, {
+    levels: resolveLevels(scorer, options),
+    rules: options.rules,
+  });
+
+  return { score, level, reason, scorer: scorer.id };
+}
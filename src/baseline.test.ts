@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeComplexity,
+  compareBaseline,
+  createBaseline,
+  parseBaseline,
+  tightenBaseline,
+} from './index.js';
+
+const SIMPLE = `function a() {
+  return 1;
+}`;
+
+const NESTED = `function a() {
+  if (x) {
+    if (y) {
+      run();
+    }
+  }
+}`;
+
+const TWO_BLOCKS = `function a() {
+  return 1;
+}
+
+function a() {
+  if (x) {
+    run();
+  }
+}`;
+
+function entry(path: string, code: string) {
+  return { path, result: analyzeComplexity(code, { blocks: true }) };
+}
+
+describe('createBaseline', () => {
+  it('should record file and block scores by path', () => {
+    const baseline = createBaseline([entry('b.ts', SIMPLE), entry('a.ts', NESTED)]);
+
+    expect(Object.keys(baseline.files)).toEqual(['a.ts', 'b.ts']);
+    expect(baseline.files['b.ts']).toEqual({
+      score: 0.33,
+      max: 1,
+      blocks: { 'function a() {': { score: 0.33, max: 1 } },
+    });
+  });
+
+  it('should number repeated block headers in source order', () => {
+    const baseline = createBaseline([entry('a.ts', TWO_BLOCKS)]);
+
+    expect(Object.keys(baseline.files['a.ts']?.blocks ?? {})).toEqual([
+      'function a() {',
+      'function a() { #2',
+    ]);
+    expect(baseline.files['a.ts']?.blocks?.['function a() { #2']?.max).toBe(2);
+  });
+
+  it('should leave out blocks for results without them', () => {
+    const result = analyzeComplexity(SIMPLE, { verbose: true });
+
+    expect(createBaseline([{ path: 'a.ts', result }]).files['a.ts']).toEqual({
+      score: 0.33,
+      max: 1,
+    });
+  });
+});
+
+describe('compareBaseline', () => {
+  const baseline = createBaseline([entry('a.ts', SIMPLE), entry('b.ts', NESTED)]);
+
+  it('should report nothing for unchanged files', () => {
+    expect(compareBaseline(baseline, [entry('a.ts', SIMPLE), entry('b.ts', NESTED)])).toEqual({
+      regressions: [],
+      added: [],
+      improved: [],
+    });
+  });
+
+  it('should report files and blocks whose score or max depth got worse', () => {
+    const { regressions } = compareBaseline(baseline, [entry('a.ts', NESTED)]);
+
+    expect(regressions).toEqual([
+      { path: 'a.ts', metric: 'score', baseline: 0.33, current: 2.71 },
+      { path: 'a.ts', metric: 'max', baseline: 1, current: 3 },
+      { path: 'a.ts', block: 'function a() {', metric: 'score', baseline: 0.33, current: 2.71 },
+      { path: 'a.ts', block: 'function a() {', metric: 'max', baseline: 1, current: 3 },
+    ]);
+  });
+
+  it('should allow increases within the tolerance', () => {
+    const comparison = compareBaseline(baseline, [entry('a.ts', NESTED)], {
+      score: 3,
+      max: 2,
+    });
+
+    expect(comparison.regressions).toEqual([]);
+  });
+
+  it('should list improved and added files', () => {
+    const comparison = compareBaseline(baseline, [entry('b.ts', SIMPLE), entry('c.ts', NESTED)]);
+
+    expect(comparison).toEqual({ regressions: [], added: ['c.ts'], improved: ['b.ts'] });
+  });
+});
+
+describe('tightenBaseline', () => {
+  it('should lower improved scores without raising worse ones', () => {
+    const baseline = createBaseline([entry('a.ts', NESTED), entry('b.ts', SIMPLE)]);
+    const tightened = tightenBaseline(baseline, [
+      entry('a.ts', SIMPLE),
+      entry('b.ts', NESTED),
+      entry('c.ts', NESTED),
+    ]);
+
+    expect(tightened.files).toEqual({
+      'a.ts': { score: 0.33, max: 1, blocks: { 'function a() {': { score: 0.33, max: 1 } } },
+      'b.ts': baseline.files['b.ts'],
+    });
+  });
+});
+
+describe('parseBaseline', () => {
+  it('should round-trip a baseline', () => {
+    const baseline = createBaseline([entry('a.ts', NESTED)]);
+
+    expect(parseBaseline(JSON.stringify(baseline))).toEqual(baseline);
+  });
+
+  it('should reject other JSON', () => {
+    expect(() => parseBaseline('{"files": {}}')).toThrow('Not a version 1 baseline');
+    expect(() => parseBaseline('null')).toThrow('Not a version 1 baseline');
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Baselines: snapshots of per-file and per-block scores, for adopting
+ * thresholds on existing code by failing only on regressions.
+ */
+
+import type { ComplexityResultVerbose, ComplexityResultWithBlocks } from './types.js';
+
+/** Score and maximum depth recorded in a baseline */
+export interface BaselineScore {
+  score: number;
+  max: number;
+}
+
+/** A file in a baseline */
+export interface BaselineFile extends BaselineScore {
+  /** Blocks by header; repeated headers get a ` #2`, ` #3`... suffix */
+  blocks?: Record<string, BaselineScore>;
+}
+
+/** Snapshot of scores by file path */
+export interface Baseline {
+  version: 1;
+  files: Record<string, BaselineFile>;
+}
+
+/** An analyzed file to record or compare */
+export interface BaselineEntry {
+  path: string;
+  result: ComplexityResultVerbose | ComplexityResultWithBlocks;
+}
+
+/** How much worse a score or maximum depth may get before it regresses */
+export interface BaselineTolerance {
+  /** Allowed score increase. Default: 0 */
+  score?: number;
+  /** Allowed maximum depth increase. Default: 0 */
+  max?: number;
+}
+
+/** A file or block that got worse than its baseline */
+export interface BaselineRegression {
+  path: string;
+  /** Block key, for a block regression */
+  block?: string;
+  metric: keyof BaselineScore;
+  baseline: number;
+  current: number;
+}
+
+/** Result of compareBaseline */
+export interface BaselineComparison {
+  regressions: BaselineRegression[];
+  /** Paths of files missing from the baseline */
+  added: string[];
+  /** Paths of files with a lower score or maximum depth than their baseline */
+  improved: string[];
+}
+
+const BASELINE_VERSION = 1;
+
+/** Scores are recorded to 2 decimals, so baselines diff cleanly */
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+function toScore(result: BaselineScore): BaselineScore {
+  return { score: round(result.score), max: result.max };
+}
+
+function toBlocks(result: BaselineEntry['result']): Record<string, BaselineScore> | undefined {
+  if (!('blocks' in result)) return undefined;
+
+  const blocks: Record<string, BaselineScore> = {};
+  const seen = new Map<string, number>();
+  // Keyed in source order, so repeated headers number consistently
+  const ordered = [...result.blocks].sort((a, b) => a.startLine - b.startLine);
+  for (const block of ordered) {
+    const count = (seen.get(block.header) ?? 0) + 1;
+    seen.set(block.header, count);
+    blocks[count === 1 ? block.header : `${block.header} #${count}`] = toScore(block);
+  }
+  return blocks;
+}
+
+function toBaselineFile(result: BaselineEntry['result']): BaselineFile {
+  const blocks = toBlocks(result);
+  return blocks ? { ...toScore(result), blocks } : toScore(result);
+}
+
+/**
+ * Record the scores of analyzed files.
+ *
+ * Results with blocks (from the `blocks` option) record each block too.
+ *
+ * @example
+ * ```typescript
+ * const result = analyzeComplexity(code, { filename: path, blocks: true });
+ * await writeFile('complexity-baseline.json', JSON.stringify(createBaseline([{ path, result }])));
+ * ```
+ */
+export function createBaseline(entries: BaselineEntry[]): Baseline {
+  const files: Record<string, BaselineFile> = {};
+  const sorted = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+  for (const entry of sorted) files[entry.path] = toBaselineFile(entry.result);
+  return { version: BASELINE_VERSION, files };
+}
+
+function compareScores(
+  path: string,
+  block: string | undefined,
+  baseline: BaselineScore,
+  current: BaselineScore,
+  tolerance: Required<BaselineTolerance>
+): BaselineRegression[] {
+  const regressions: BaselineRegression[] = [];
+  for (const metric of ['score', 'max'] as const) {
+    if (current[metric] > baseline[metric] + tolerance[metric]) {
+      regressions.push({
+        path,
+        ...(block === undefined ? {} : { block }),
+        metric,
+        baseline: baseline[metric],
+        current: current[metric],
+      });
+    }
+  }
+  return regressions;
+}
+
+function improves(baseline: BaselineScore, current: BaselineScore): boolean {
+  return current.score < baseline.score || current.max < baseline.max;
+}
+
+function compareFile(
+  path: string,
+  baseline: BaselineFile,
+  current: BaselineFile,
+  tolerance: Required<BaselineTolerance>
+): { regressions: BaselineRegression[]; improved: boolean } {
+  const regressions = compareScores(path, undefined, baseline, current, tolerance);
+  let improved = improves(baseline, current);
+
+  // Blocks new since the baseline are covered by the file's own scores
+  for (const [key, block] of Object.entries(current.blocks ?? {})) {
+    const recorded = baseline.blocks?.[key];
+    if (!recorded) continue;
+    regressions.push(...compareScores(path, key, recorded, block, tolerance));
+    improved ||= improves(recorded, block);
+  }
+
+  return { regressions, improved };
+}
+
+/**
+ * Compare analyzed files against a baseline.
+ *
+ * A file or block regresses when its score or maximum depth exceeds its
+ * baseline by more than the tolerance. Files missing from the baseline
+ * are listed as added rather than compared; files of the baseline that
+ * were not analyzed are ignored.
+ *
+ * @param baseline - Baseline from createBaseline
+ * @param entries - Analyzed files, with blocks to compare blocks too
+ * @param tolerance - Allowed increases
+ */
+export function compareBaseline(
+  baseline: Baseline,
+  entries: BaselineEntry[],
+  tolerance: BaselineTolerance = {}
+): BaselineComparison {
+  const allowed = { score: tolerance.score ?? 0, max: tolerance.max ?? 0 };
+  const comparison: BaselineComparison = { regressions: [], added: [], improved: [] };
+
+  for (const entry of entries) {
+    const recorded = baseline.files[entry.path];
+    if (!recorded) {
+      comparison.added.push(entry.path);
+      continue;
+    }
+
+    const { regressions, improved } = compareFile(
+      entry.path,
+      recorded,
+      toBaselineFile(entry.result),
+      allowed
+    );
+    comparison.regressions.push(...regressions);
+    if (improved) comparison.improved.push(entry.path);
+  }
+
+  return comparison;
+}
+
+function tighten(baseline: BaselineScore, current: BaselineScore | undefined): BaselineScore {
+  if (!current) return baseline;
+  return {
+    score: Math.min(baseline.score, current.score),
+    max: Math.min(baseline.max, current.max),
+  };
+}
+
+function tightenFile(baseline: BaselineFile, current: BaselineFile): BaselineFile {
+  const file: BaselineFile = tighten(baseline, current);
+  if (baseline.blocks) {
+    file.blocks = Object.fromEntries(
+      Object.entries(baseline.blocks).map(([key, block]) => [
+        key,
+        tighten(block, current.blocks?.[key]),
+      ])
+    );
+  }
+  return file;
+}
+
+/**
+ * Lower the baseline of files and blocks that improved, so they cannot
+ * get worse again. Scores are never raised, and files or blocks are
+ * neither added nor removed.
+ *
+ * @param baseline - Baseline from createBaseline
+ * @param entries - Analyzed files
+ * @returns A new baseline
+ */
+export function tightenBaseline(baseline: Baseline, entries: BaselineEntry[]): Baseline {
+  const files = { ...baseline.files };
+  for (const entry of entries) {
+    const recorded = files[entry.path];
+    if (recorded) files[entry.path] = tightenFile(recorded, toBaselineFile(entry.result));
+  }
+  return { version: BASELINE_VERSION, files };
+}
+
+/**
+ * Parse and validate a baseline file.
+ *
+ * @throws Error if the JSON is invalid or is not a baseline
+ */
+export function parseBaseline(json: string): Baseline {
+  const baseline = JSON.parse(json) as Partial<Baseline> | null;
+  if (
+    baseline?.version !== BASELINE_VERSION ||
+    typeof baseline.files !== 'object' ||
+    baseline.files === null
+  ) {
+    throw new Error(`Not a version ${BASELINE_VERSION} baseline`);
+  }
+  return baseline as Baseline;
+}
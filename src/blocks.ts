@@ -0,0 +1,117 @@
+/**
+ * Block segmentation: split parsed lines into logical blocks (functions,
+ * classes, methods) and score each one.
+ */
+
+import type { BlockComplexity } from './types.js';
+import type { ParsedLine } from './parser.js';
+import type { AssessmentScale, ScoreOptions } from './assessment.js';
+import { buildHistogram, computeStatistics } from './statistics.js';
+import { assessMetrics, resolveLevels } from './assessment.js';
+import { resolveScorer, scorerInput } from './scorers.js';
+
+/** Lines that close a block at its header's depth: }, ), ], end, </tag> */
+const BLOCK_CLOSER = /^(?:[}\])]|end\b|<\/)/;
+
+/** Closing lines that open the next part of the block: } else {, } catch (e) { */
+const BLOCK_REOPENER = /[{([:]$/;
+
+/** A header line and the lines it contains */
+interface Segment {
+  header: ParsedLine;
+  lines: ParsedLine[];
+}
+
+/**
+ * Split lines into blocks headed at `depth`.
+ *
+ * A block starts at a line at `depth` and takes every deeper line after
+ * it. A closing line (`}`, `end`, ...) back at `depth` ends the block and
+ * belongs to it, unless it opens the next part of the same statement
+ * (`} else {`, `} catch (e) {`), which the block goes on with. Any other
+ * line at `depth` or shallower ends it too.
+ * Lines at `depth` with nothing nested under them are not blocks.
+ *
+ * @param lines - Parsed lines in source order
+ * @param depth - Depth of block header lines
+ * @returns Blocks in source order
+ */
+function segmentBlocks(lines: ParsedLine[], depth: number): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment | undefined;
+
+  for (const line of lines) {
+    const step = blockStep(line, depth, current);
+    if (step !== 'outside') current?.lines.push(line);
+    if (step === 'inside') continue;
+    current =
+      step === 'outside' && line.depth === depth ? { header: line, lines: [line] } : undefined;
+    if (current) segments.push(current);
+  }
+
+  return segments.filter((segment) => segment.lines.some((l) => l.depth > depth));
+}
+
+/** Where a line falls relative to the block headed at `depth`, if one is open */
+function blockStep(
+  line: ParsedLine,
+  depth: number,
+  current: Segment | undefined
+): 'inside' | 'close' | 'outside' {
+  if (!current) return 'outside';
+  if (line.depth > depth) return 'inside';
+  if (line.depth < depth || !BLOCK_CLOSER.test(line.content)) return 'outside';
+  return BLOCK_REOPENER.test(line.content) ? 'inside' : 'close';
+}
+
+function toBlockComplexity<L extends string>(
+  segment: Segment,
+  options: AssessmentScale<L> & {
+    scorer: ReturnType<typeof resolveScorer>;
+    percentiles?: readonly number[];
+  }
+): BlockComplexity<L> {
+  const { header, lines } = segment;
+  const depths = lines.map((l) => l.depth);
+  const histogram = buildHistogram(depths);
+  const stats = computeStatistics(depths, options.percentiles);
+  const score = options.scorer.score(scorerInput(histogram, depths));
+
+  return {
+    startLine: header.lineNumber,
+    endLine: lines.at(-1)?.lineNumber ?? header.lineNumber,
+    header: header.content,
+    lineCount: lines.length,
+    ...stats,
+    score,
+    level: assessMetrics(score, histogram, options).level,
+  };
+}
+
+/**
+ * Segment lines into blocks and score each one, worst first.
+ *
+ * @param lines - Measured lines in source order (see measuredLines)
+ * @param options - Scorer, thresholds or levels, and rules for each block's
+ *   level (resolved as for the whole result), depth of block header lines (default: the
+ *   shallowest depth) and percentiles to report
+ * @returns Blocks sorted by score (highest first), then by position
+ */
+export function analyzeBlocks<L extends string>(
+  lines: ParsedLine[],
+  options: ScoreOptions<L> & { depth?: number; percentiles?: readonly number[] } = {}
+): BlockComplexity<L>[] {
+  const scorer = resolveScorer(options.scorer);
+  const blockOptions = {
+    levels: resolveLevels(scorer, options),
+    rules: options.rules,
+    scorer,
+    percentiles: options.percentiles,
+  };
+  // Reduced rather than spread: spreading every line into Math.min() can overflow the stack
+  const depth = options.depth ?? lines.reduce((min, l) => Math.min(min, l.depth), Infinity);
+
+  return segmentBlocks(lines, depth)
+    .map((segment) => toBlockComplexity(segment, blockOptions))
+    .sort((a, b) => b.score - a.score || a.startLine - b.startLine);
+}
@@ -0,0 +1,54 @@
+/**
+ * Analysis of the CLI's input: files and globs, or a diff on stdin.
+ */
+
+import type { CliConfig } from './cli-options.js';
+import type { Report } from './report.js';
+import { UsageError } from './cli-options.js';
+import { analyzeComplexity } from './analyze.js';
+import { analyzeDiffComplexityByFile } from './analyze-diff.js';
+import { expandGlobs } from './glob.js';
+import { mapConcurrent } from './concurrency.js';
+
+/** Files read at once */
+const READ_CONCURRENCY = 8;
+
+/** I/O used to read the input */
+export interface InputIO {
+  /** Directory that file arguments resolve against */
+  cwd: string;
+  readStdin: () => Promise<string>;
+  readFile: (path: string) => Promise<string>;
+}
+
+async function analyzeFiles(patterns: string[], config: CliConfig, io: InputIO): Promise<Report> {
+  if (patterns.length === 0) {
+    throw new UsageError('No files given (pass files or globs, or use --diff with stdin)');
+  }
+
+  const paths = await expandGlobs(patterns, io.cwd);
+  if (paths.length === 0) throw new UsageError(`No files match: ${patterns.join(' ')}`);
+
+  const files = await mapConcurrent(paths, READ_CONCURRENCY, async (path) => {
+    const content = await io.readFile(path).catch(() => {
+      throw new UsageError(`Cannot read file: ${path}`);
+    });
+    return { path, result: analyzeComplexity(content, { ...config.options, filename: path }) };
+  });
+
+  return { files };
+}
+
+async function analyzeStdinDiff(config: CliConfig, io: InputIO): Promise<Report> {
+  const diff = await io.readStdin();
+  return analyzeDiffComplexityByFile(diff, config.options);
+}
+
+/**
+ * Analyze the files and globs given, or the diff on stdin with --diff.
+ *
+ * @throws UsageError if no files are given or match, or a file cannot be read
+ */
+export function analyzeInput(config: CliConfig, io: InputIO): Promise<Report> {
+  return config.diff ? analyzeStdinDiff(config, io) : analyzeFiles(config.patterns, config, io);
+}
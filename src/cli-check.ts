@@ -0,0 +1,102 @@
+/**
+ * Pass/fail checks for the CLI: --fail-on levels, and --baseline files
+ * that keep only the results that got worse.
+ */
+
+import type { CliConfig } from './cli-options.js';
+import type { Report } from './report.js';
+import type { BaselineEntry, BaselineRegression } from './baseline.js';
+import { UsageError } from './cli-options.js';
+import { compareBaseline, createBaseline, parseBaseline, tightenBaseline } from './baseline.js';
+import { reachesLevel } from './report.js';
+
+type BaselineConfig = NonNullable<CliConfig['baseline']>;
+type Baseline = ReturnType<typeof parseBaseline>;
+
+/** I/O used by checks */
+export interface CheckIO {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  stderr: (text: string) => void;
+}
+
+async function readBaseline(config: BaselineConfig, io: CheckIO): Promise<Baseline> {
+  const json = await io.readFile(config.path).catch(() => {
+    throw new UsageError(`Cannot read baseline: ${config.path}`);
+  });
+  try {
+    return parseBaseline(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UsageError(`Invalid baseline ${config.path}: ${message}`);
+  }
+}
+
+function writeBaseline(config: BaselineConfig, baseline: Baseline, io: CheckIO): Promise<void> {
+  return io.writeFile(config.path, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+function groupByPath(regressions: BaselineRegression[]): Map<string, BaselineRegression[]> {
+  const grouped = new Map<string, BaselineRegression[]>();
+  for (const regression of regressions) {
+    grouped.set(regression.path, [...(grouped.get(regression.path) ?? []), regression]);
+  }
+  return grouped;
+}
+
+/**
+ * Apply --baseline to a report of analyzed files.
+ *
+ * Writing records every file and passes. Checking keeps the files that
+ * regressed, with their regressions, and the files missing from the
+ * baseline that reach `failOn`; it fails if any are left.
+ */
+async function checkBaseline(
+  report: Report,
+  config: BaselineConfig,
+  failOn: CliConfig['failOn'],
+  io: CheckIO
+): Promise<{ report: Report; failed: boolean }> {
+  // Files are analyzed with blocks when a baseline is given
+  const entries = report.files as BaselineEntry[];
+
+  if (config.write) {
+    await writeBaseline(config, createBaseline(entries), io);
+    io.stderr(`indent-complexity: wrote a baseline of ${entries.length} files to ${config.path}\n`);
+    return { report, failed: false };
+  }
+
+  const baseline = await readBaseline(config, io);
+  const comparison = compareBaseline(baseline, entries, config.tolerance);
+  if (config.update && comparison.improved.length > 0) {
+    await writeBaseline(config, tightenBaseline(baseline, entries), io);
+    io.stderr(
+      `indent-complexity: tightened the baseline of ${comparison.improved.length} files in ${config.path}\n`
+    );
+  }
+
+  const regressed = groupByPath(comparison.regressions);
+  const added = new Set(comparison.added);
+  const files = report.files.flatMap((entry): Report['files'] => {
+    const regressions = regressed.get(entry.path);
+    if (regressions) return [{ ...entry, regressions }];
+    return added.has(entry.path) && reachesLevel({ files: [entry] }, failOn) ? [entry] : [];
+  });
+
+  return { report: { files }, failed: files.length > 0 };
+}
+
+/**
+ * Check a report of analyzed files against --fail-on, or against the
+ * baseline file when --baseline is given.
+ *
+ * @returns The report to print, and whether the check failed
+ */
+export function checkReport(
+  report: Report,
+  config: CliConfig,
+  io: CheckIO
+): Promise<{ report: Report; failed: boolean }> {
+  if (config.baseline) return checkBaseline(report, config.baseline, config.failOn, io);
+  return Promise.resolve({ report, failed: reachesLevel(report, config.failOn) });
+}
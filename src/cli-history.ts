@@ -0,0 +1,56 @@
+/**
+ * --history: a file's complexity across its git history.
+ */
+
+import type { CliConfig } from './cli-options.js';
+import type { HistoryPoint } from './history.js';
+import { UsageError } from './cli-options.js';
+import { analyzeHistory, formatHistoryCsv } from './history.js';
+import { alignRows } from './report.js';
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change.toFixed(2)}` : change.toFixed(2);
+}
+
+function formatHistoryTable(points: HistoryPoint[]): string {
+  const rows = [
+    ['Commit', 'Date', 'Score', 'Change', 'Level', 'Max', 'Patch', 'Subject'],
+    ...points.map((p) => [
+      p.commit.slice(0, 8),
+      p.date.slice(0, 10),
+      p.result.score.toFixed(2),
+      formatChange(p.scoreChange),
+      p.result.level,
+      String(p.result.max),
+      p.patch.score.toFixed(2),
+      p.subject,
+    ]),
+  ];
+  return alignRows(rows, [false, false, true, true, false, true, true, false]);
+}
+
+/**
+ * Analyze the history of the one file given.
+ *
+ * @param config - CLI configuration with `history` set
+ * @param cwd - Directory that git runs in
+ * @returns Output in the table, JSON or CSV format
+ * @throws UsageError for other file counts or formats, or when git fails
+ */
+export async function runHistory(config: CliConfig, cwd: string): Promise<string> {
+  const [path, ...rest] = config.patterns;
+  if (path === undefined || rest.length > 0) throw new UsageError('--history takes one file');
+  if (config.format === 'sarif') throw new UsageError('--history prints table, json or csv');
+
+  const points = await analyzeHistory(path, {
+    ...config.options,
+    cwd,
+    maxCount: config.maxCount,
+  }).catch((error: unknown) => {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  });
+
+  if (config.format === 'json') return `${JSON.stringify(points, null, 2)}\n`;
+  if (config.format === 'csv') return formatHistoryCsv(points);
+  return formatHistoryTable(points);
+}
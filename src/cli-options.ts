@@ -0,0 +1,286 @@
+/**
+ * Command-line argument parsing and validation.
+ */
+
+import { parseArgs } from 'node:util';
+import type { DiffOptions } from './types.js';
+import type { ReportFormat } from './report.js';
+import type { BaselineTolerance } from './baseline.js';
+import { COMPLEXITY_LEVELS } from './constants.js';
+import { listLanguages } from './languages.js';
+import { DEFAULT_SCORER, listScorers } from './scorers.js';
+import { REPORT_FORMATS } from './report.js';
+
+export const USAGE = `Usage: indent-complexity [options] <file|glob>...
+       git diff | indent-complexity --diff [options]
+       indent-complexity --history [options] <file>
+
+Options:
+  --diff                    Read a unified diff from stdin
+  --include <lines>         Diff lines to analyze: additions, deletions, both (default: additions)
+  --anchor-context          Detect diff indentation from hunk context lines too
+  --history                 Analyze every commit of a file in the git history
+  --max-count <n>           With --history, only the most recent n commits
+  --language <id>           Language profile for every file, or auto to select
+                            one by file extension (default: auto)
+  --scorer <id>             Scoring formula: squared, linear, exponential, variance
+                            (default: squared)
+  --medium <score>          Score at or above which a result is medium (default: 4)
+  --high <score>            Score at or above which a result is high (default: 10)
+  --comment-pattern <regex> Regex identifying comment lines to skip
+  --comment-mode <mode>     Comment detection: pattern, stateful
+                            (default: stateful with a language profile, else pattern)
+  --keep-comments           Analyze comment lines as code
+  --multiline-strings <how> Lines inside multi-line strings: include, skip, pin
+                            (default: include)
+  --normalize-continuations Measure wrapped and aligned lines at their statement's depth
+  --indent-unit <n>         Spaces per indent level (default: detected)
+  --tab-width <n>           Columns a tab advances (default: one indent level)
+  --generated <how>         Files marked as generated, and lockfiles: skip, off
+                            (default: skip)
+  --minified <how>          Lines longer than --max-line-length: exclude, skip, off
+                            (default: exclude)
+  --binary <how>            Lines with control characters: skip, exclude, off
+                            (default: skip)
+  --max-line-length <n>     Characters above which a line counts as minified
+                            (default: 500)
+  --verbose                 Show line count, max, mean and variance
+  -f, --format <format>     Output format: table, json, csv, sarif (default: table)
+  --fail-on <level>         Exit 1 when any result reaches this level:
+                            low, medium, high, none (default: high)
+  --baseline <file>         Report only files worse than in the baseline file
+                            (files missing from it are checked with --fail-on)
+  --write-baseline          Write the baseline file instead of checking it
+  --update-baseline         Lower the baseline of files that improved
+  --tolerance <score>       Score increase allowed by the baseline (default: 0)
+  --depth-tolerance <n>     Max depth increase allowed by the baseline (default: 0)
+  -h, --help                Show this help
+`;
+
+const CLI_OPTIONS = {
+  diff: { type: 'boolean' },
+  include: { type: 'string' },
+  'anchor-context': { type: 'boolean' },
+  history: { type: 'boolean' },
+  'max-count': { type: 'string' },
+  language: { type: 'string' },
+  scorer: { type: 'string' },
+  medium: { type: 'string' },
+  high: { type: 'string' },
+  'comment-pattern': { type: 'string' },
+  'comment-mode': { type: 'string' },
+  'keep-comments': { type: 'boolean' },
+  'multiline-strings': { type: 'string' },
+  'normalize-continuations': { type: 'boolean' },
+  'indent-unit': { type: 'string' },
+  'tab-width': { type: 'string' },
+  generated: { type: 'string' },
+  minified: { type: 'string' },
+  binary: { type: 'string' },
+  'max-line-length': { type: 'string' },
+  verbose: { type: 'boolean' },
+  format: { type: 'string', short: 'f' },
+  'fail-on': { type: 'string' },
+  baseline: { type: 'string' },
+  'write-baseline': { type: 'boolean' },
+  'update-baseline': { type: 'boolean' },
+  tolerance: { type: 'string' },
+  'depth-tolerance': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+const INCLUDE_CHOICES = ['additions', 'deletions', 'both'] as const;
+const COMMENT_MODES = ['pattern', 'stateful'] as const;
+const MULTILINE_STRING_CHOICES = ['include', 'skip', 'pin'] as const;
+const GENERATED_CHOICES = ['skip', 'off'] as const;
+const CONTENT_CHECK_CHOICES = ['skip', 'exclude', 'off'] as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS }>>['values'];
+
+export interface CliConfig {
+  help: boolean;
+  /** Files and globs to analyze */
+  patterns: string[];
+  diff: boolean;
+  /** Analyze the history of the file given */
+  history: boolean;
+  /** Most recent commits to analyze with --history */
+  maxCount?: number;
+  format: ReportFormat;
+  failOn: (typeof COMPLEXITY_LEVELS)[number] | 'none';
+  verbose: boolean;
+  /** Baseline check, when --baseline is given */
+  baseline?: BaselineConfig;
+  options: DiffOptions;
+}
+
+export interface BaselineConfig {
+  path: string;
+  /** Write the baseline rather than check against it */
+  write: boolean;
+  /** Tighten the baseline of improved files after checking */
+  update: boolean;
+  tolerance: BaselineTolerance;
+}
+
+export class UsageError extends Error {}
+
+function parseChoice<T extends string>(
+  name: string,
+  value: string | undefined,
+  choices: readonly T[],
+  fallback: T
+): T {
+  if (value === undefined) return fallback;
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parseThreshold(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+function parseBaselineConfig(values: CliValues): BaselineConfig | undefined {
+  const path = values.baseline;
+  if (path === undefined) {
+    if (values['write-baseline'] || values['update-baseline']) {
+      throw new UsageError('--write-baseline and --update-baseline need --baseline <file>');
+    }
+    return undefined;
+  }
+  if (values.diff || values.history) {
+    throw new UsageError('--baseline cannot be used with --diff or --history');
+  }
+
+  return {
+    path,
+    write: values['write-baseline'] ?? false,
+    update: values['update-baseline'] ?? false,
+    tolerance: {
+      score: parseThreshold('tolerance', values.tolerance) ?? 0,
+      max: parseThreshold('depth-tolerance', values['depth-tolerance']) ?? 0,
+    },
+  };
+}
+
+function parsePositiveInteger(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return number;
+}
+
+function parseContentChecks(
+  values: CliValues
+): Exclude<DiffOptions['contentChecks'], false | undefined> {
+  return {
+    generated: parseChoice('generated', values.generated, GENERATED_CHOICES, 'skip'),
+    minified: parseChoice('minified', values.minified, CONTENT_CHECK_CHOICES, 'exclude'),
+    binary: parseChoice('binary', values.binary, CONTENT_CHECK_CHOICES, 'skip'),
+    maxLineLength: parsePositiveInteger('max-line-length', values['max-line-length']),
+  };
+}
+
+function parseCommentPattern(values: CliValues): RegExp | null | undefined {
+  if (values['keep-comments']) return null;
+  const pattern = values['comment-pattern'];
+  if (pattern === undefined) return undefined;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new UsageError(`--comment-pattern is not a valid regex: ${pattern}`);
+  }
+}
+
+function parseCommentMode(value: string | undefined): CliConfig['options']['commentMode'] {
+  // Left unset so language profiles can default to the stateful mode
+  return value === undefined
+    ? undefined
+    : parseChoice('comment-mode', value, COMMENT_MODES, 'pattern');
+}
+
+function languageChoices(): string[] {
+  return ['auto', ...listLanguages().map((profile) => profile.id)];
+}
+
+function scorerChoices(): string[] {
+  return listScorers().map((scorer) => scorer.id);
+}
+
+function parseCliArgs(argv: string[]): { values: CliValues; positionals: string[] } {
+  try {
+    return parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UsageError(`${message}\n\n${USAGE}`);
+  }
+}
+
+function buildConfig(values: CliValues): Omit<CliConfig, 'help' | 'patterns'> {
+  const format = parseChoice('format', values.format, REPORT_FORMATS, 'table');
+  const thresholds: DiffOptions['thresholds'] = {};
+  const medium = parseThreshold('medium', values.medium);
+  const high = parseThreshold('high', values.high);
+  if (medium !== undefined) thresholds.medium = medium;
+  if (high !== undefined) thresholds.high = high;
+
+  return {
+    diff: values.diff ?? false,
+    history: values.history ?? false,
+    maxCount: parsePositiveInteger('max-count', values['max-count']),
+    format,
+    failOn: parseChoice('fail-on', values['fail-on'], [...COMPLEXITY_LEVELS, 'none'], 'high'),
+    verbose: values.verbose ?? false,
+    baseline: parseBaselineConfig(values),
+    options: {
+      include: parseChoice('include', values.include, INCLUDE_CHOICES, 'additions'),
+      anchorToContext: values['anchor-context'] ?? false,
+      commentPattern: parseCommentPattern(values),
+      commentMode: parseCommentMode(values['comment-mode']),
+      language: parseChoice('language', values.language, languageChoices(), 'auto'),
+      scorer: parseChoice('scorer', values.scorer, scorerChoices(), DEFAULT_SCORER),
+      multilineStrings: parseChoice(
+        'multiline-strings',
+        values['multiline-strings'],
+        MULTILINE_STRING_CHOICES,
+        'include'
+      ),
+      normalizeContinuations: values['normalize-continuations'] ?? false,
+      indentUnit: parsePositiveInteger('indent-unit', values['indent-unit']),
+      tabWidth: parsePositiveInteger('tab-width', values['tab-width']),
+      contentChecks: parseContentChecks(values),
+      // Blocks are recorded in baselines
+      blocks: values.baseline !== undefined,
+      thresholds,
+      verbose: values.verbose ?? false,
+      includeLines: format === 'sarif',
+    },
+  };
+}
+
+/**
+ * Parse and validate CLI arguments.
+ *
+ * @param argv - Arguments after the executable and script name
+ * @returns The CLI configuration
+ * @throws UsageError for unknown options and invalid values
+ */
+export function parseCli(argv: string[]): CliConfig {
+  const { values, positionals } = parseCliArgs(argv);
+
+  // --help wins over invalid option values
+  if (values.help) return { ...buildConfig({}), help: true, patterns: [] };
+
+  if (values.history && values.diff) throw new UsageError('--history cannot be used with --diff');
+
+  return { ...buildConfig(values), help: false, patterns: positionals };
+}
@@ -0,0 +1,61 @@
+/**
+ * Command-line interface logic, kept free of process globals for testing.
+ */
+
+import type { CliConfig } from './cli-options.js';
+import { USAGE, UsageError, parseCli } from './cli-options.js';
+import { analyzeInput } from './cli-analyze.js';
+import { formatReport } from './report.js';
+import { checkReport } from './cli-check.js';
+import { runHistory } from './cli-history.js';
+
+/** I/O used by the CLI */
+export interface CliIO {
+  /** Directory that file arguments resolve against */
+  cwd: string;
+  readStdin: () => Promise<string>;
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_THRESHOLD = 1;
+const EXIT_USAGE = 2;
+
+async function analyzeAndReport(config: CliConfig, io: CliIO): Promise<number> {
+  const { report, failed } = await checkReport(await analyzeInput(config, io), config, io);
+  io.stdout(formatReport(report, config.format, config.verbose));
+  return failed ? EXIT_THRESHOLD : EXIT_OK;
+}
+
+/**
+ * Run the CLI.
+ *
+ * @param argv - Arguments after the executable and script name
+ * @param io - I/O bindings (process streams and the file system in production)
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const config = parseCli(argv);
+
+    if (config.help) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+
+    if (config.history) {
+      io.stdout(await runHistory(config, io.cwd));
+      return EXIT_OK;
+    }
+
+    return await analyzeAndReport(config, io);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`indent-complexity: ${error.message}\n`);
+    return EXIT_USAGE;
+  }
+}
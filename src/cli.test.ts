@@ -0,0 +1,335 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { runCli } from './cli-runner.js';
+import { globToRegExp } from './glob.js';
+
+const FLAT = 'a\nb\nc\n';
+const DEEP = 'a\n  b\n    c\n      d\n        e\n          f\n            g\n';
+
+function createIO(cwd: string, stdin = '') {
+  const io = {
+    cwd,
+    out: '',
+    err: '',
+    readStdin: () => Promise.resolve(stdin),
+    readFile: (file: string) => fs.readFile(path.resolve(cwd, file), 'utf8'),
+    writeFile: (file: string, content: string) => fs.writeFile(path.resolve(cwd, file), content),
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: (text: string) => {
+      io.err += text;
+    },
+  };
+  return io;
+}
+
+describe('indent-complexity CLI', () => {
+  let cwd: string;
+
+  beforeAll(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-'));
+    await fs.mkdir(path.join(cwd, 'src', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(cwd, 'src', 'flat.ts'), FLAT);
+    await fs.writeFile(path.join(cwd, 'src', 'nested', 'deep.ts'), DEEP);
+    await fs.writeFile(path.join(cwd, 'src', 'notes.md'), FLAT);
+  });
+
+  afterAll(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  describe('file analysis', () => {
+    it('should print a table for the given files', async () => {
+      const io = createIO(cwd);
+      const code = await runCli(['src/flat.ts'], io);
+
+      expect(code).toBe(0);
+      expect(io.out).toContain('File');
+      expect(io.out).toMatch(/src\/flat\.ts\s+0\.00\s+low/);
+    });
+
+    it('should read at most 8 files at a time', async () => {
+      await fs.mkdir(path.join(cwd, 'many'));
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) => fs.writeFile(path.join(cwd, 'many', `f${i}.ts`), FLAT))
+      );
+      const io = createIO(cwd);
+      const { readFile } = io;
+      let pending = 0;
+      let peak = 0;
+      io.readFile = async (file) => {
+        pending++;
+        peak = Math.max(peak, pending);
+        try {
+          return await readFile(file);
+        } finally {
+          pending--;
+        }
+      };
+      const code = await runCli(['many/*.ts', '--format', 'json'], io);
+
+      expect(code).toBe(0);
+      expect(JSON.parse(io.out).files).toHaveLength(20);
+      expect(peak).toBe(8);
+    });
+
+    it('should expand globs', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/**/*.ts', '--fail-on', 'none', '--format', 'json'], io);
+      const report = JSON.parse(io.out);
+
+      expect(report.files.map((f: { path: string }) => f.path)).toEqual([
+        'src/flat.ts',
+        'src/nested/deep.ts',
+      ]);
+    });
+
+    it('should add statistics columns with --verbose', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/flat.ts', '--verbose'], io);
+
+      expect(io.out).toMatch(/Lines\s+Max\s+Mean\s+Variance/);
+    });
+
+    it('should print SARIF with --format sarif', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/nested/deep.ts', '--format', 'sarif'], io);
+      const log = JSON.parse(io.out);
+
+      expect(log.version).toBe('2.1.0');
+      expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri).toBe(
+        'src/nested/deep.ts'
+      );
+    });
+
+    it('should print CSV with --format csv', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/**/*.ts', '--format', 'csv', '--fail-on', 'none'], io);
+
+      expect(io.out).toBe(
+        'File,Score,Level\r\nsrc/flat.ts,0.00,low\r\nsrc/nested/deep.ts,13.00,high\r\n'
+      );
+    });
+
+    it('should select language profiles by extension', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/flat.ts', '--format', 'json', '--verbose'], io);
+      const report = JSON.parse(io.out);
+
+      expect(report.files[0].result.language).toBe('typescript');
+    });
+
+    it('should pass thresholds through to the analysis', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/nested/deep.ts', '--high', '100', '--format', 'json'], io);
+      const report = JSON.parse(io.out);
+
+      expect(report.files[0].result.level).toBe('medium');
+    });
+
+    it('should score with the formula given by --scorer', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/nested/deep.ts', '--scorer', 'linear', '--format', 'json'], io);
+      const { result } = JSON.parse(io.out).files[0];
+
+      expect(result).toMatchObject({ scorer: 'linear', score: 3, level: 'high' });
+      expect(await runCli(['--scorer', 'cubic', 'src/flat.ts'], createIO(cwd))).toBe(2);
+    });
+
+    it('should measure depths in the unit given by --indent-unit', async () => {
+      const io = createIO(cwd);
+      await runCli(['src/nested/deep.ts', '--indent-unit', '4', '--format', 'json'], io);
+      const { result } = JSON.parse(io.out).files[0];
+
+      expect(result.score).toBeCloseTo(19 / 7);
+      expect(await runCli(['--tab-width', '0', 'src/flat.ts'], createIO(cwd))).toBe(2);
+    });
+
+    it('should skip generated files unless --generated is off', async () => {
+      await fs.writeFile(path.join(cwd, 'generated.ts'), `// @generated\n${DEEP}`);
+      const io = createIO(cwd);
+
+      expect(await runCli(['generated.ts'], io)).toBe(0);
+      expect(io.out).toContain('skipped (generated)');
+      expect(await runCli(['generated.ts', '--generated', 'off'], createIO(cwd))).toBe(1);
+      expect(await runCli(['generated.ts', '--minified', 'trim'], createIO(cwd))).toBe(2);
+    });
+  });
+
+  describe('diff analysis', () => {
+    const diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,1 +1,3 @@
++if (a) {
++  run();
++}
+`;
+
+    it('should read a diff from stdin with --diff', async () => {
+      const io = createIO(cwd, diff);
+      const code = await runCli(['--diff', '--format', 'json', '--verbose'], io);
+      const report = JSON.parse(io.out);
+
+      expect(code).toBe(0);
+      expect(report.files[0]).toMatchObject({ path: 'src/a.ts', status: 'modified' });
+      expect(report.aggregate.lineCount).toBe(3);
+    });
+
+    it('should include a status column and total row in tables', async () => {
+      const io = createIO(cwd, diff);
+      await runCli(['--diff'], io);
+
+      expect(io.out).toContain('Status');
+      expect(io.out).toMatch(/^Total\s+/m);
+    });
+  });
+
+  describe('baseline', () => {
+    const baselineArgs = ['src/**/*.ts', '--baseline', 'baseline.json'];
+
+    beforeAll(async () => {
+      await runCli([...baselineArgs, '--write-baseline'], createIO(cwd));
+    });
+
+    afterAll(async () => {
+      await fs.rm(path.join(cwd, 'src', 'regressed.ts'), { force: true });
+    });
+
+    it('should write scores of files and blocks with --write-baseline', async () => {
+      const baseline = JSON.parse(await fs.readFile(path.join(cwd, 'baseline.json'), 'utf8'));
+
+      expect(baseline.version).toBe(1);
+      expect(Object.keys(baseline.files)).toEqual(['src/flat.ts', 'src/nested/deep.ts']);
+      expect(baseline.files['src/nested/deep.ts']).toMatchObject({ score: 13, max: 6 });
+    });
+
+    it('should pass when nothing got worse, even for high files', async () => {
+      const io = createIO(cwd);
+
+      expect(await runCli(baselineArgs, io)).toBe(0);
+      expect(io.out).toBe('File  Score  Level\n');
+    });
+
+    it('should report regressions and files missing from the baseline', async () => {
+      const baselineFile = path.join(cwd, 'baseline.json');
+      const baseline = JSON.parse(await fs.readFile(baselineFile, 'utf8'));
+      const regressed = {
+        version: 1,
+        files: { ...baseline.files, 'src/nested/deep.ts': { score: 12, max: 6 } },
+      };
+      await fs.writeFile(path.join(cwd, 'regressed.json'), JSON.stringify(regressed));
+      await fs.writeFile(path.join(cwd, 'src', 'regressed.ts'), DEEP);
+
+      const io = createIO(cwd);
+      const code = await runCli(['src/**/*.ts', '--baseline', 'regressed.json'], io);
+
+      expect(code).toBe(1);
+      expect(io.out).toMatch(/src\/nested\/deep\.ts .*score 12\.00 -> 13\.00$/m);
+      expect(io.out).toMatch(/^src\/regressed\.ts\s+13\.00\s+high$/m);
+      expect(io.out).not.toContain('flat.ts');
+    });
+
+    it('should allow regressions within --tolerance', async () => {
+      const io = createIO(cwd);
+      const args = ['src/nested/deep.ts', '--baseline', 'regressed.json', '--tolerance', '1'];
+
+      expect(await runCli(args, io)).toBe(0);
+    });
+
+    it('should tighten improved files with --update-baseline', async () => {
+      await fs.writeFile(
+        path.join(cwd, 'loose.json'),
+        JSON.stringify({ version: 1, files: { 'src/flat.ts': { score: 5, max: 3 } } })
+      );
+
+      const io = createIO(cwd);
+      const code = await runCli(
+        ['src/flat.ts', '--baseline', 'loose.json', '--update-baseline'],
+        io
+      );
+      const baseline = JSON.parse(await fs.readFile(path.join(cwd, 'loose.json'), 'utf8'));
+
+      expect(code).toBe(0);
+      expect(baseline.files['src/flat.ts']).toEqual({ score: 0, max: 0 });
+      expect(io.err).toContain('tightened the baseline of 1 files');
+    });
+
+    it('should exit 2 for missing or invalid baselines', async () => {
+      await fs.writeFile(path.join(cwd, 'invalid.json'), '[]');
+      const missing = createIO(cwd);
+      const invalid = createIO(cwd);
+
+      expect(await runCli(['src/flat.ts', '--baseline', 'missing.json'], missing)).toBe(2);
+      expect(missing.err).toContain('Cannot read baseline: missing.json');
+      expect(await runCli(['src/flat.ts', '--baseline', 'invalid.json'], invalid)).toBe(2);
+      expect(invalid.err).toContain('Invalid baseline invalid.json: Not a version 1 baseline');
+      expect(await runCli(['--diff', '--baseline', 'baseline.json'], createIO(cwd))).toBe(2);
+      expect(await runCli(['src/flat.ts', '--write-baseline'], createIO(cwd))).toBe(2);
+    });
+  });
+
+  describe('exit codes', () => {
+    it('should exit 1 when a result reaches the high level by default', async () => {
+      const io = createIO(cwd);
+
+      expect(await runCli(['src/nested/deep.ts'], io)).toBe(1);
+    });
+
+    it('should respect --fail-on', async () => {
+      expect(await runCli(['src/flat.ts', '--fail-on', 'low'], createIO(cwd))).toBe(1);
+      expect(await runCli(['src/nested/deep.ts', '--fail-on', 'none'], createIO(cwd))).toBe(0);
+    });
+
+    it('should exit 2 on usage errors', async () => {
+      const io = createIO(cwd);
+
+      expect(await runCli(['--format', 'xml', 'src/flat.ts'], io)).toBe(2);
+      expect(io.err).toContain('--format must be one of: table, json');
+    });
+
+    it('should exit 2 for an unknown --language', async () => {
+      const io = createIO(cwd);
+
+      expect(await runCli(['--language', 'klingon', 'src/flat.ts'], io)).toBe(2);
+      expect(io.err).toContain('--language must be one of: auto, javascript');
+    });
+
+    it('should exit 2 for unknown options and missing files', async () => {
+      expect(await runCli(['--nope'], createIO(cwd))).toBe(2);
+      expect(await runCli([], createIO(cwd))).toBe(2);
+      expect(await runCli(['missing.ts'], createIO(cwd))).toBe(2);
+    });
+
+    it('should print usage with --help', async () => {
+      const io = createIO(cwd);
+
+      expect(await runCli(['--help'], io)).toBe(0);
+      expect(io.out).toContain('Usage: indent-complexity');
+    });
+  });
+});
+
+describe('globToRegExp', () => {
+  it('should match single-segment wildcards', () => {
+    expect(globToRegExp('src/*.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/a.ts')).toBe(false);
+  });
+
+  it('should match any depth with **', () => {
+    const regex = globToRegExp('src/**/*.ts');
+
+    expect(regex.test('src/a.ts')).toBe(true);
+    expect(regex.test('src/lib/deep/a.ts')).toBe(true);
+    expect(regex.test('lib/a.ts')).toBe(false);
+  });
+
+  it('should support braces, classes and ?', () => {
+    expect(globToRegExp('*.{ts,js}').test('a.js')).toBe(true);
+    expect(globToRegExp('file[0-9].ts').test('file3.ts')).toBe(true);
+    expect(globToRegExp('?.ts').test('ab.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+/**
+ * `indent-complexity` executable.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { runCli } from './cli-runner.js';
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main(): Promise<void> {
+  try {
+    process.exitCode = await runCli(process.argv.slice(2), {
+      cwd: process.cwd(),
+      readStdin,
+      readFile: (file) => readFile(path.resolve(process.cwd(), file), 'utf8'),
+      writeFile: (file, content) => writeFile(path.resolve(process.cwd(), file), content),
+      stdout: (text) => process.stdout.write(text),
+      stderr: (text) => process.stderr.write(text),
+    });
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`
+    );
+    process.exitCode = 2;
+  }
+}
+
+void main();
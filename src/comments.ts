@@ -0,0 +1,298 @@
+/**
+ * Comment and string line detection.
+ *
+ * Two comment modes are supported: 'pattern' tests each line against a
+ * regex on its own, 'stateful' scans lines in order and tracks block
+ * comments that span several lines. Multi-line strings are always found
+ * by scanning.
+ */
+
+import type { BlockCommentDelimiter, CommentSyntax, StringDelimiter } from './types.js';
+import {
+  DEFAULT_COMMENT_PATTERN,
+  DEFAULT_COMMENT_SYNTAX,
+  DEFAULT_STRING_DELIMITERS,
+} from './constants.js';
+
+export interface CommentOptions {
+  commentPattern?: RegExp | null;
+  commentMode?: 'pattern' | 'stateful';
+  commentSyntax?: Partial<CommentSyntax>;
+  /** String delimiters. Default: DEFAULT_STRING_DELIMITERS */
+  stringDelimiters?: StringDelimiter[];
+}
+
+/** Comment or string left open at the end of a line */
+export interface ScanState {
+  block: BlockCommentDelimiter | null;
+  string: StringDelimiter | null;
+}
+
+export interface LineScan extends ScanState {
+  hasCode: boolean;
+}
+
+/** Position and state while scanning one line */
+interface Cursor extends LineScan {
+  index: number;
+  firstCodeIndex: number;
+  /** Heredoc opened on this line; its body starts on the next line */
+  heredoc: StringDelimiter | null;
+}
+
+/** Word after a heredoc operator, optionally quoted: <<EOF, <<-'EOF', <<~SQL */
+const HEREDOC_WORD = /^[-~]?(['"]?)([A-Za-z_]\w*)\1/;
+
+function startsWithAny(line: string, prefixes: string[], index: number): boolean {
+  return prefixes.some((prefix) => line.startsWith(prefix, index));
+}
+
+function findBlockOpener(
+  line: string,
+  index: number,
+  firstCodeIndex: number,
+  syntax: CommentSyntax
+): BlockCommentDelimiter | undefined {
+  return syntax.block.find(
+    (block) => line.startsWith(block.open, index) && (!block.lineStart || index === firstCodeIndex)
+  );
+}
+
+/**
+ * Match a string opener at `index`.
+ *
+ * Heredoc delimiters close on the word that follows the operator, so the
+ * returned delimiter carries that word as its `close`.
+ */
+function findStringOpener(
+  line: string,
+  index: number,
+  strings: StringDelimiter[]
+): { quote: StringDelimiter; bodyStart: number } | undefined {
+  for (const delimiter of strings) {
+    if (!line.startsWith(delimiter.open, index)) continue;
+    const bodyStart = index + delimiter.open.length;
+    if (!delimiter.heredoc) return { quote: delimiter, bodyStart };
+
+    const word = HEREDOC_WORD.exec(line.slice(bodyStart));
+    if (word?.[2]) {
+      return {
+        quote: { ...delimiter, close: word[2], multiline: true },
+        bodyStart: bodyStart + word[0].length,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the end of a string whose body continues at `index`.
+ *
+ * A heredoc ends on a line that starts with its word.
+ *
+ * @returns Index just past the closing delimiter, or -1 if the string is
+ *   not closed on this line
+ */
+function findStringEnd(line: string, index: number, quote: StringDelimiter): number {
+  if (quote.heredoc) {
+    const start = line.search(/\S/);
+    const end = start + quote.close.length;
+    const closes = index === 0 && start !== -1 && line.startsWith(quote.close, start);
+    return closes && !/\w/.test(line[end] ?? '') ? end : -1;
+  }
+
+  let i = index;
+  while (i < line.length) {
+    if (line.startsWith(quote.close, i)) return i + quote.close.length;
+    i += line[i] === '\\' ? 2 : 1;
+  }
+  return -1;
+}
+
+function closeString(line: string, cursor: Cursor, quote: StringDelimiter): void {
+  const end = findStringEnd(line, cursor.index, quote);
+  if (end === -1) {
+    cursor.index = line.length;
+    return;
+  }
+  cursor.index = end;
+  cursor.string = null;
+}
+
+function closeBlock(line: string, cursor: Cursor, block: BlockCommentDelimiter): void {
+  const end = line.indexOf(block.close, cursor.index);
+  if (end === -1) {
+    cursor.index = line.length;
+    return;
+  }
+  cursor.index = end + block.close.length;
+  cursor.block = null;
+}
+
+function scanCode(
+  line: string,
+  cursor: Cursor,
+  syntax: CommentSyntax,
+  strings: StringDelimiter[]
+): void {
+  if (/\s/.test(line[cursor.index] ?? '')) {
+    cursor.index++;
+    return;
+  }
+
+  const block = findBlockOpener(line, cursor.index, cursor.firstCodeIndex, syntax);
+  if (block) {
+    cursor.block = block;
+    cursor.index += block.open.length;
+    return;
+  }
+  if (startsWithAny(line, syntax.line, cursor.index)) {
+    cursor.index = line.length;
+    return;
+  }
+
+  cursor.hasCode = true;
+  const opener = findStringOpener(line, cursor.index, strings);
+  if (!opener) {
+    cursor.index++;
+    return;
+  }
+  cursor.index = opener.bodyStart;
+  if (opener.quote.heredoc) cursor.heredoc = opener.quote;
+  else cursor.string = opener.quote;
+}
+
+/**
+ * Scan one line, starting inside the comment or string left open by the
+ * previous line.
+ *
+ * Quoted strings are skipped so delimiters inside them do not open
+ * comments. Text inside a string counts as code.
+ */
+export function scanLine(
+  line: string,
+  syntax: CommentSyntax,
+  strings: StringDelimiter[],
+  state: ScanState
+): LineScan {
+  const firstCodeIndex = line.search(/\S/);
+  const cursor: Cursor = {
+    ...state,
+    hasCode: state.string !== null && firstCodeIndex !== -1,
+    index: 0,
+    firstCodeIndex,
+    heredoc: null,
+  };
+
+  while (cursor.index < line.length) {
+    if (cursor.string) closeString(line, cursor, cursor.string);
+    else if (cursor.block) closeBlock(line, cursor, cursor.block);
+    else scanCode(line, cursor, syntax, strings);
+  }
+
+  // Only multi-line strings carry over; unterminated quotes end with the line
+  return {
+    hasCode: cursor.hasCode,
+    block: cursor.block,
+    string: cursor.string?.multiline ? cursor.string : cursor.heredoc,
+  };
+}
+
+/**
+ * Scan lines in order, tracking comments and strings across lines.
+ *
+ * @returns The scan of each line with the state it started in
+ */
+function scanLines(
+  lines: string[],
+  syntax: CommentSyntax,
+  strings: StringDelimiter[]
+): { scan: LineScan; start: ScanState }[] {
+  let state: ScanState = { block: null, string: null };
+
+  return lines.map((line) => {
+    const start = state;
+    const scan = scanLine(line, syntax, strings, start);
+    state = scan;
+    return { scan, start };
+  });
+}
+
+/**
+ * Whether a scanned line is a comment: no code, and either inside a block
+ * comment or not blank.
+ */
+export function isCommentScan(line: string, scan: LineScan, start: ScanState): boolean {
+  return !scan.hasCode && (start.block !== null || line.trim().length > 0);
+}
+
+/**
+ * Classify lines as comments, tracking block comments across lines.
+ *
+ * A line is a comment when it has no code outside line comments and
+ * block comments. Lines mixing code and comments count as code.
+ *
+ * @param lines - Raw lines in source order
+ * @param syntax - Line comment prefixes and block comment delimiters
+ * @param strings - String delimiters to skip while scanning
+ * @returns Whether each line is a comment line
+ */
+export function classifyCommentLines(
+  lines: string[],
+  syntax: CommentSyntax,
+  strings: StringDelimiter[] = DEFAULT_STRING_DELIMITERS
+): boolean[] {
+  return scanLines(lines, syntax, strings).map(({ scan, start }, i) =>
+    isCommentScan(lines[i] ?? '', scan, start)
+  );
+}
+
+/**
+ * Find comment lines according to the configured comment mode.
+ *
+ * @param lines - Raw lines in source order
+ * @param options - Comment pattern, mode and syntax
+ * @returns Whether each line is a comment line
+ */
+export function findCommentLines(lines: string[], options: CommentOptions = {}): boolean[] {
+  const { commentPattern = DEFAULT_COMMENT_PATTERN, commentMode = 'pattern' } = options;
+
+  if (commentPattern === null) return lines.map(() => false);
+
+  if (commentMode === 'stateful') {
+    return classifyCommentLines(
+      lines,
+      { ...DEFAULT_COMMENT_SYNTAX, ...options.commentSyntax },
+      options.stringDelimiters
+    );
+  }
+
+  return lines.map((line) => commentPattern.test(line));
+}
+
+/**
+ * Find lines inside multi-line strings.
+ *
+ * A line belongs to a string body when it starts inside a string opened
+ * on an earlier line, including the line that closes it. Comment syntax
+ * is tracked so quotes inside comments do not open strings.
+ *
+ * @param lines - Raw lines in source order
+ * @param options - Comment syntax and string delimiters
+ * @returns For each line, the index of the line that opened its string
+ *   (undefined outside strings)
+ */
+export function findStringBodies(
+  lines: string[],
+  options: CommentOptions = {}
+): (number | undefined)[] {
+  const syntax = { ...DEFAULT_COMMENT_SYNTAX, ...options.commentSyntax };
+  const strings = options.stringDelimiters ?? DEFAULT_STRING_DELIMITERS;
+  let opener: number | undefined;
+
+  return scanLines(lines, syntax, strings).map(({ scan, start }, i) => {
+    const body = start.string === null ? undefined : opener;
+    if (scan.string !== null && scan.string !== start.string) opener = i;
+    return body;
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Bounded concurrency for async work over many items.
+ */
+
+/**
+ * Map items with an async function, running at most `limit` calls at a
+ * time. Results keep the order of the items.
+ *
+ * @param items - Items to map
+ * @param limit - Maximum number of pending calls (at least 1)
+ * @param map - Async mapping function
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  map: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  let next = 0;
+
+  // Each worker takes the next item when its previous one settles
+  const work = async (): Promise<void> => {
+    const index = next++;
+    if (index >= items.length) return;
+    results[index] = await map(items[index] as T, index);
+    return work();
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, work));
+  return results;
+}
@@ -1,4 +1,4 @@
-import type { Thresholds } from './types.js';
+import type { CommentSyntax, ComplexityLevel, StringDelimiter, Thresholds } from './types.js';
 
 /**
  * Default pattern to identify comment lines.
@@ -12,6 +12,37 @@ import type { Thresholds } from './types.js';
  */
 export const DEFAULT_COMMENT_PATTERN = /^\s*(\/\/|\/\*|\*|#|<!--|--)/;
 
+/**
+ * Default comment syntax for the stateful comment mode.
+ *
+ * Line comments: `//`, `#`, `--`. Block comments: C-style `/* *\/`,
+ * HTML `<!-- -->`, and Python docstrings (`"""` / `'''`) when they open
+ * at the start of a line.
+ */
+export const DEFAULT_COMMENT_SYNTAX: CommentSyntax = {
+  line: ['//', '#', '--'],
+  block: [
+    { open: '/*', close: '*/' },
+    { open: '<!--', close: '-->' },
+    { open: '"""', close: '"""', lineStart: true },
+    { open: "'''", close: "'''", lineStart: true },
+  ],
+};
+
+/**
+ * Default string delimiters.
+ *
+ * Comment delimiters inside these strings do not open comments. Template
+ * literals and triple-quoted strings may span several lines.
+ */
+export const DEFAULT_STRING_DELIMITERS: StringDelimiter[] = [
+  { open: '"""', close: '"""', multiline: true },
+  { open: "'''", close: "'''", multiline: true },
+  { open: '"', close: '"' },
+  { open: "'", close: "'" },
+  { open: '`', close: '`', multiline: true },
+];
+
 /**
  * Default score thresholds for complexity assessment.
  *
@@ -26,3 +57,8 @@ export const DEFAULT_THRESHOLDS: Thresholds = {
   medium: 4,
   high: 10,
 };
+
+/**
+ * Complexity levels from least to most severe.
+ */
+export const COMPLEXITY_LEVELS: readonly ComplexityLevel[] = ['low', 'medium', 'high'];
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeComplexity, checkContent, findHotspots } from './index.js';
+
+// Score 6: medium by default
+const DEEP = ['a', '  b', '    c', '      d', '        e'];
+
+const BUNDLE = `!function(){${'var a=1;'.repeat(100)}}();`;
+
+describe('content checks', () => {
+  it('should skip input marked as generated near its top', () => {
+    const result = analyzeComplexity(
+      ['// Code generated by protoc. DO NOT EDIT.', ...DEEP].join('\n')
+    );
+
+    expect(result).toMatchObject({ score: 0, level: 'low', skipped: 'generated' });
+    expect(result.reason).toBe('Skipped: generated code (DO NOT EDIT on line 1)');
+  });
+
+  it('should ignore markers below the header', () => {
+    const content = [...Array<string>(20).fill('x'), '// @generated', ...DEEP].join('\n');
+
+    expect(analyzeComplexity(content).skipped).toBeUndefined();
+  });
+
+  it('should only take header comments as markers', () => {
+    const mentions = [
+      '/** Skips files marked @generated or DO NOT EDIT */',
+      'const MARKERS = [/@generated\\b/, /\\bDO NOT EDIT\\b/];',
+      ...DEEP,
+    ];
+    const header = ['/**', ' * @generated by protoc-gen-ts', ' */', ...DEEP];
+
+    expect(analyzeComplexity(mentions.join('\n')).skipped).toBeUndefined();
+    expect(analyzeComplexity(header.join('\n')).reason).toBe(
+      'Skipped: generated code (@generated on line 2)'
+    );
+  });
+
+  it('should skip lockfiles by name', () => {
+    const result = analyzeComplexity(DEEP.join('\n'), { filename: 'deps/package-lock.json' });
+
+    expect(result.skipped).toBe('generated');
+    expect(result.reason).toContain('lockfile package-lock.json');
+  });
+
+  it('should exclude minified lines by default', () => {
+    const result = analyzeComplexity([...DEEP, BUNDLE].join('\n'), { verbose: true });
+
+    expect(result.score).toBe(6);
+    expect(result.lineCount).toBe(5);
+    expect(result.excludedLines).toBe(1);
+  });
+
+  it('should skip minified input when asked to', () => {
+    const result = analyzeComplexity(BUNDLE, { contentChecks: { minified: 'skip' } });
+
+    expect(result.skipped).toBe('minified');
+    expect(result.reason).toBe(`Skipped: minified code (line 1 has ${BUNDLE.length} characters)`);
+  });
+
+  it('should honor maxLineLength', () => {
+    const result = checkContent(DEEP.join('\n'), { maxLineLength: 6 });
+
+    expect(result.excludedLines).toBe(2);
+    expect(result.content.split('\n')).toEqual(['a', '  b', '    c', '', '']);
+  });
+
+  it('should skip binary content, or exclude its lines', () => {
+    const content = [...DEEP, 'PK\u0003\u0004\u0000'].join('\n');
+
+    expect(analyzeComplexity(content).reason).toBe('Skipped: binary content (line 6)');
+    expect(
+      analyzeComplexity(content, { verbose: true, contentChecks: { binary: 'exclude' } })
+    ).toMatchObject({ score: 6, excludedLines: 1 });
+    expect(checkContent('a\tb\r\n\u001b[0m').skipped).toBeUndefined();
+  });
+
+  it('should report the first skipping check', () => {
+    const content = ['// @generated', BUNDLE, '\u0000'].join('\n');
+
+    expect(checkContent(content, { minified: 'skip' }).skipped?.check).toBe('generated');
+    expect(checkContent(content, { generated: 'off', minified: 'skip' }).skipped?.check).toBe(
+      'binary'
+    );
+  });
+
+  it('should run no checks with contentChecks: false', () => {
+    const content = ['// @generated', ...DEEP].join('\n');
+    const result = analyzeComplexity(content, { contentChecks: false, blocks: true });
+
+    expect(result.skipped).toBeUndefined();
+    expect(result.excludedLines).toBeUndefined();
+    expect(result.score).toBeGreaterThan(0);
+  });
+
+  it('should apply to hotspots', () => {
+    const content = ['// @generated', ...DEEP].join('\n');
+
+    expect(findHotspots(content, { windowSize: 3, minScore: 0 })).toEqual([]);
+  });
+});
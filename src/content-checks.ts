@@ -0,0 +1,143 @@
+/**
+ * Content checks: recognize generated, minified and binary input before
+ * it is parsed, so it cannot distort scores.
+ */
+
+/** A check run on input before it is parsed */
+export type ContentCheck = 'generated' | 'minified' | 'binary';
+
+/** Options for the content checks (see `contentChecks`) */
+export interface ContentCheckOptions {
+  /** Input with a generated-code header comment near its top (`@generated`,
+   * `Code generated ... DO NOT EDIT`, `<auto-generated>`), and lockfiles by
+   * name. Default: 'skip' */
+  generated?: 'skip' | 'off';
+  /** Lines longer than `maxLineLength`, as in minified bundles: 'exclude'
+   * leaves them out, 'skip' skips input with any. Default: 'exclude' */
+  minified?: 'skip' | 'exclude' | 'off';
+  /** Lines with NUL or other control characters: 'skip' skips input with
+   * any, 'exclude' leaves them out. Default: 'skip' */
+  binary?: 'skip' | 'exclude' | 'off';
+  /** Characters above which a line counts as minified. Default: 500 */
+  maxLineLength?: number;
+}
+
+/** Outcome of the content checks */
+export interface ContentCheckResult {
+  /** Check that skips the input, and why */
+  skipped?: { check: ContentCheck; reason: string };
+  /** The input with excluded lines blanked, so line numbers are kept */
+  content: string;
+  /** Number of lines excluded */
+  excludedLines: number;
+}
+
+/** Default for `maxLineLength` */
+export const DEFAULT_MAX_LINE_LENGTH = 500;
+
+/** Lines searched for generated-code markers */
+const GENERATED_HEADER_LINES = 20;
+
+/** A comment opening a line, as in the conventional generated-code header */
+const COMMENT_START = String.raw`^\s*(?:\/\/+|#+|\/\*+|\*|--|<!--)\s*`;
+
+/** Markers, named in the reason, after a comment opener: `// @generated`,
+ * `// Code generated by protoc. DO NOT EDIT.`, `// <auto-generated>` */
+const GENERATED_MARKERS: [marker: string, pattern: RegExp][] = [
+  ['@generated', new RegExp(`${COMMENT_START}@generated\\b`)],
+  ['DO NOT EDIT', new RegExp(`${COMMENT_START}Code generated\\b.*\\bDO NOT EDIT\\b`)],
+  ['<auto-generated>', new RegExp(`${COMMENT_START}<auto-generated\\b`)],
+];
+
+const LOCKFILES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+]);
+
+/** Control characters that occur in text: tab, line and page breaks, escape */
+const TEXT_CONTROLS = new Set([0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1b]);
+
+/** Has other control characters, or the replacement character left by
+ * decoding bytes that are not text */
+function hasBinaryCharacter(line: string): boolean {
+  for (let i = 0; i < line.length; i++) {
+    const code = line.charCodeAt(i);
+    if ((code < 0x20 && !TEXT_CONTROLS.has(code)) || code === 0xfffd) return true;
+  }
+  return false;
+}
+
+function findGeneratedMarker(lines: string[], filename: string | undefined): string | undefined {
+  const name = filename?.split(/[\\/]/).pop();
+  if (name !== undefined && LOCKFILES.has(name)) return `lockfile ${name}`;
+
+  for (const [i, line] of lines.slice(0, GENERATED_HEADER_LINES).entries()) {
+    const marker = GENERATED_MARKERS.find(([, pattern]) => pattern.test(line));
+    if (marker) return `${marker[0]} on line ${i + 1}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check input for generated, minified and binary content.
+ *
+ * A check set to 'skip' that matches skips the whole input (the first
+ * such check wins, in the order generated, binary, minified); checks set
+ * to 'exclude' blank the lines they match.
+ *
+ * @param content - Input to check
+ * @param options - Action of each check
+ * @param filename - Name of the input, for lockfile detection
+ */
+export function checkContent(
+  content: string,
+  options: ContentCheckOptions = {},
+  filename?: string
+): ContentCheckResult {
+  const {
+    generated = 'skip',
+    minified = 'exclude',
+    binary = 'skip',
+    maxLineLength = DEFAULT_MAX_LINE_LENGTH,
+  } = options;
+  const lines = content.split('\n');
+
+  const marker = generated === 'off' ? undefined : findGeneratedMarker(lines, filename);
+  if (marker) {
+    const reason = `Skipped: generated code (${marker})`;
+    return { skipped: { check: 'generated', reason }, content, excludedLines: 0 };
+  }
+
+  const isBinary = (line: string) => binary !== 'off' && hasBinaryCharacter(line);
+  const isLong = (line: string) => minified !== 'off' && line.length > maxLineLength;
+
+  const binaryLine = lines.findIndex(isBinary);
+  if (binary === 'skip' && binaryLine !== -1) {
+    const reason = `Skipped: binary content (line ${binaryLine + 1})`;
+    return { skipped: { check: 'binary', reason }, content, excludedLines: 0 };
+  }
+  const longLine = lines.findIndex(isLong);
+  if (minified === 'skip' && longLine !== -1) {
+    const length = lines[longLine]?.length ?? 0;
+    const reason = `Skipped: minified code (line ${longLine + 1} has ${length} characters)`;
+    return { skipped: { check: 'minified', reason }, content, excludedLines: 0 };
+  }
+  if (binaryLine === -1 && longLine === -1) return { content, excludedLines: 0 };
+
+  let excludedLines = 0;
+  const kept = lines.map((line) => {
+    if (!isBinary(line) && !isLong(line)) return line;
+    excludedLines++;
+    return '';
+  });
+  return { content: kept.join('\n'), excludedLines };
+}
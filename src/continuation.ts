@@ -0,0 +1,180 @@
+/**
+ * Continuation-line normalization.
+ *
+ * Wrapped arguments, chained calls and parameter lists aligned under an
+ * open paren are indented for layout, not nesting. Continuation lines
+ * take the depth of the line that starts their statement.
+ */
+
+import type { CommentOptions } from './comments.js';
+import { DEFAULT_COMMENT_SYNTAX } from './constants.js';
+
+/** A code line with its measured depth */
+export interface SourceLine {
+  /** Raw line, including indentation */
+  text: string;
+  depth: number;
+}
+
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/** Operators that leave a statement open at the end of a line */
+const TRAILING_OPERATOR = /(?:&&|\|\||\?\?|=>|(?<!\+)\+|(?<!-)-|(?<!\.\.)\.|[=?\\])$/;
+
+/** Operators that continue the previous line's statement: .then(), ? a : b, && c */
+const LEADING_OPERATOR = /^(?:\.(?!\.\.)|\?|:(?!:)|&&?|\|\|?)/;
+
+const QUOTED = /(["'`])(?:\\.|(?!\1).)*\1/g;
+
+function findCommentStart(code: string, prefix: string): number {
+  let index = code.indexOf(prefix);
+  while (index > 0 && !/\s/.test(code[index - 1] ?? '')) {
+    index = code.indexOf(prefix, index + 1);
+  }
+  return index;
+}
+
+/**
+ * Reduce a trimmed line to its code: strings emptied, trailing line
+ * comment removed. Comment prefixes only count at the start of the line or
+ * after whitespace, so `i--` and `a.#b` stay intact.
+ */
+function stripCode(content: string, lineComments: string[]): string {
+  const code = content.replace(QUOTED, '""');
+  const starts = lineComments
+    .map((prefix) => findCommentStart(code, prefix))
+    .filter((index) => index !== -1);
+
+  return (starts.length > 0 ? code.slice(0, Math.min(...starts)) : code).trimEnd();
+}
+
+/** An open bracket, with the statement it belongs to */
+interface Frame {
+  bracket: string;
+  /** Normalized depth of the statement that opened the bracket */
+  statementDepth: number;
+  /** Raw minus normalized depth of the opening line */
+  offset: number;
+}
+
+export interface NormalizedLine {
+  depth: number;
+  /** Continues the statement above it */
+  continues: boolean;
+}
+
+interface NormalizeState {
+  stack: Frame[];
+  statementDepth: number;
+  previousCode: string | undefined;
+}
+
+function lastFrameIndex(stack: Frame[], bracket: string): number {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i]?.bracket === bracket) return i;
+  }
+  return -1;
+}
+
+function updateBrackets(stack: Frame[], code: string, frame: Omit<Frame, 'bracket'>): void {
+  for (const char of code) {
+    const opener = CLOSERS[char];
+    if (opener === undefined) {
+      if (char === '(' || char === '[' || char === '{') stack.push({ bracket: char, ...frame });
+      continue;
+    }
+    const index = lastFrameIndex(stack, opener);
+    if (index !== -1) stack.length = index;
+  }
+}
+
+/** The open frame a line's leading closer (e.g. `})`) closes, if any */
+function findClosedFrame(stack: Frame[], code: string): Frame | undefined {
+  const opener = CLOSERS[code[0] ?? ''];
+  return opener === undefined ? undefined : stack[lastFrameIndex(stack, opener)];
+}
+
+function isMisaligned(text: string, indentUnit: number): boolean {
+  const indent = text.match(/^[\t ]*/)?.[0] ?? '';
+  return indentUnit > 1 && !indent.includes('\t') && indent.length % indentUnit !== 0;
+}
+
+function isContinuation(
+  line: SourceLine,
+  previousCode: string,
+  openBracket: string | undefined,
+  indentUnit: number
+): boolean {
+  if (openBracket === '(' || openBracket === '[') return true;
+  if (TRAILING_OPERATOR.test(previousCode)) return true;
+  if (LEADING_OPERATOR.test(line.text.trim())) return true;
+  return isMisaligned(line.text, indentUnit);
+}
+
+/**
+ * Normalized depth of one line; updates the statement depth.
+ *
+ * Block lines are measured relative to the line that opened their block,
+ * so a callback body opened on a continuation line is one level deeper
+ * than its statement rather than its raw indentation.
+ */
+function normalizeLine(
+  state: NormalizeState,
+  line: SourceLine,
+  code: string,
+  indentUnit: number
+): NormalizedLine {
+  const { stack, previousCode } = state;
+  const top = stack.at(-1);
+  const closed = findClosedFrame(stack, code);
+
+  if (closed) {
+    state.statementDepth = closed.statementDepth;
+    return { depth: closed.statementDepth, continues: false };
+  }
+  if (previousCode !== undefined && isContinuation(line, previousCode, top?.bracket, indentUnit)) {
+    return { depth: Math.min(line.depth, state.statementDepth), continues: true };
+  }
+
+  state.statementDepth = Math.max(0, line.depth - (top?.offset ?? 0));
+  return { depth: state.statementDepth, continues: false };
+}
+
+/**
+ * Assign continuation lines the depth of their logical statement.
+ *
+ * A line continues the statement above it when it is inside an unclosed
+ * paren or bracket, follows a trailing operator, starts with `.`, `?`,
+ * `:`, `&&` or `||`, or is aligned off the indent unit. Lines inside
+ * braces are blocks, and lines starting with a closing bracket return to
+ * the statement that opened it.
+ *
+ * With an indent unit of 1 alignment is not checked, so continuation lines
+ * can be found before the unit is known.
+ *
+ * @param lines - Code lines in source order (no comments or blank lines)
+ * @param indentUnit - Number of spaces per indent level
+ * @param options - Comment syntax, used to strip trailing line comments
+ * @returns Normalized depth of each line, and whether it is a continuation
+ */
+export function normalizeContinuations(
+  lines: SourceLine[],
+  indentUnit: number,
+  options: CommentOptions = {}
+): NormalizedLine[] {
+  const lineComments = options.commentSyntax?.line ?? DEFAULT_COMMENT_SYNTAX.line;
+  const state: NormalizeState = { stack: [], statementDepth: 0, previousCode: undefined };
+
+  return lines.map((line) => {
+    const code = stripCode(line.text.trim(), lineComments);
+    const normalized = normalizeLine(state, line, code, indentUnit);
+
+    updateBrackets(state.stack, code, {
+      statementDepth: state.statementDepth,
+      offset: line.depth - normalized.depth,
+    });
+    state.previousCode = code;
+
+    return normalized;
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * Parsing of a single file's diff lines into lines with indentation depths.
+ */
+
+import type { DiffFileContents } from './types.js';
+import type { ParseOptions, ParsedLine } from './parser.js';
+import { findCommentLines, findStringBodies } from './comments.js';
+import { computeIndentDepth, detectIndentUnit } from './parser.js';
+import { normalizeContinuations } from './continuation.js';
+import { findDirectives } from './directives.js';
+import { readDiffLines } from './unified-diff.js';
+
+type DiffLine = ReturnType<typeof readDiffLines>[number];
+
+export interface DiffLineOptions extends ParseOptions {
+  anchorToContext?: boolean;
+  /** Full contents of the file, anchoring the indent unit of each side */
+  contents?: DiffFileContents;
+}
+
+export interface ParsedDiffLines {
+  lines: ParsedLine[];
+  indentUnit: number;
+  /** Thresholds set by directives on the measured side, by level name */
+  thresholdOverrides?: Record<string, number>;
+}
+
+function shouldIncludeLine(line: DiffLine, include: 'additions' | 'deletions' | 'both'): boolean {
+  if (line.kind === 'context') return false;
+
+  if (include === 'additions') return line.kind === 'addition';
+  if (include === 'deletions') return line.kind === 'deletion';
+  // include === 'both'
+  return true;
+}
+
+/**
+ * Pick the indent unit for each side of a file's diff.
+ *
+ * By default only changed code lines are sampled, as in parseContent:
+ * `unsampled` lines and continuation lines are left out. When anchored,
+ * hunk context lines are sampled too, and full file contents take
+ * precedence for the side they describe. An `indentUnit` option applies
+ * to both sides.
+ *
+ * @param excluded - Lines not measured as code
+ * @param unsampled - Excluded lines left out of the sample: all of them
+ *   in stateful comment mode, all but comments otherwise
+ */
+function resolveSideUnits(
+  diffLines: DiffLine[],
+  { excluded, unsampled }: { excluded: Set<DiffLine>; unsampled: Set<DiffLine> },
+  options: DiffLineOptions
+): { old: number; new: number } {
+  const { anchorToContext = false, contents, indentUnit, tabWidth } = options;
+  if (indentUnit !== undefined) return { old: indentUnit, new: indentUnit };
+
+  const continuations = new Set(
+    options.normalizeContinuations ? findDiffContinuationLines(diffLines, excluded, options) : []
+  );
+  const sample = diffLines
+    .filter((line) => !unsampled.has(line) && !continuations.has(line))
+    .filter((line) => anchorToContext || line.kind !== 'context')
+    .map((line) => line.text)
+    .join('\n');
+  const fromDiff = detectIndentUnit(sample, 1, tabWidth);
+  const detect = (content: string | undefined) =>
+    content === undefined ? fromDiff : detectIndentUnit(content, fromDiff, tabWidth);
+
+  return { old: detect(contents?.old), new: detect(contents?.new) };
+}
+
+/**
+ * Run a line classifier over each side of a file's diff.
+ *
+ * Each side is scanned as its own sequence of context and changed lines,
+ * restarting at every hunk, so comments and strings are tracked the way
+ * they appear in the old and new file.
+ */
+function classifySides<T>(
+  diffLines: DiffLine[],
+  classify: (hunkLines: DiffLine[], side: 'old' | 'new') => (T | undefined)[]
+): Map<DiffLine, T> {
+  const classes = new Map<DiffLine, T>();
+
+  for (const kind of ['addition', 'deletion'] as const) {
+    const sideLines = diffLines.filter((line) => line.kind === kind || line.kind === 'context');
+    const hunks = new Set(sideLines.map((line) => line.hunk));
+
+    for (const hunk of hunks) {
+      const hunkLines = sideLines.filter((line) => line.hunk === hunk);
+      classify(hunkLines, kind === 'deletion' ? 'old' : 'new').forEach((value, i) => {
+        const line = hunkLines[i];
+        if (value !== undefined && line && !classes.has(line)) classes.set(line, value);
+      });
+    }
+  }
+
+  return classes;
+}
+
+function findDiffCommentLines(diffLines: DiffLine[], options: ParseOptions): Set<DiffLine> {
+  const comments = classifySides(diffLines, (hunkLines) =>
+    findCommentLines(
+      hunkLines.map((line) => line.text),
+      options
+    ).map((isComment) => (isComment ? true : undefined))
+  );
+  return new Set(comments.keys());
+}
+
+/**
+ * Map each line inside a multi-line string to the line that opened it,
+ * unless string bodies are included as code.
+ */
+function findDiffStringBodies(
+  diffLines: DiffLine[],
+  options: ParseOptions
+): Map<DiffLine, DiffLine> {
+  if ((options.multilineStrings ?? 'include') === 'include') return new Map();
+  return classifySides(diffLines, (hunkLines) =>
+    findStringBodies(
+      hunkLines.map((line) => line.text),
+      options
+    ).map((opener) => (opener === undefined ? undefined : hunkLines[opener]))
+  );
+}
+
+/**
+ * Find the lines suppressed by directives, and the thresholds set on the
+ * side of the file that is measured (the old side for deletions only,
+ * else the new side). Disable directives apply within the hunk they
+ * appear in, as the lines between hunks are unknown.
+ */
+function findDiffDirectives(
+  diffLines: DiffLine[],
+  include: 'additions' | 'deletions' | 'both',
+  options: ParseOptions
+): { suppressed: Set<DiffLine>; thresholdOverrides?: Record<string, number> } {
+  const suppressed = classifySides(diffLines, (hunkLines) =>
+    findDirectives(
+      hunkLines.map((line) => line.text),
+      options
+    ).suppressed.map((s) => (s ? true : undefined))
+  );
+  const otherSide = include === 'deletions' ? 'addition' : 'deletion';
+  const { thresholdOverrides } = findDirectives(
+    diffLines.filter((line) => line.kind !== otherSide).map((line) => line.text),
+    options
+  );
+
+  return { suppressed: new Set(suppressed.keys()), thresholdOverrides };
+}
+
+function findDiffContinuationLines(
+  diffLines: DiffLine[],
+  excluded: Set<DiffLine>,
+  options: ParseOptions
+): DiffLine[] {
+  const continuations = classifySides(diffLines, (hunkLines) => {
+    const code = hunkLines.filter((line) => !excluded.has(line) && line.text.trim() !== '');
+    const normalized = normalizeContinuations(
+      code.map((line) => ({ text: line.text, depth: 0 })),
+      1,
+      options
+    );
+    const continued = new Set(code.filter((_, i) => normalized[i]?.continues));
+    return hunkLines.map((line) => (continued.has(line) ? true : undefined));
+  });
+  return [...continuations.keys()];
+}
+
+/**
+ * Normalize the depth of each side's code lines, so continuation lines
+ * take the depth of their statement.
+ */
+function findContinuationDepths(
+  diffLines: DiffLine[],
+  excluded: Set<DiffLine>,
+  units: { old: number; new: number },
+  options: ParseOptions
+): Map<DiffLine, number> {
+  return classifySides(diffLines, (hunkLines, side) => {
+    const code = hunkLines.filter((line) => !excluded.has(line) && line.text.trim() !== '');
+    const depths = normalizeContinuations(
+      code.map((line) => ({
+        text: line.text,
+        depth: computeIndentDepth(line.text, units[side], options.tabWidth),
+      })),
+      units[side],
+      options
+    );
+    const byLine = new Map(code.map((line, i) => [line, depths[i]?.depth]));
+    return hunkLines.map((line) => byLine.get(line));
+  });
+}
+
+/** How the lines of a file's diff were classified */
+interface DiffLineClasses {
+  commentLines: Set<DiffLine>;
+  /** String body lines, mapped to the line that opened the string */
+  stringOpeners: Map<DiffLine, DiffLine>;
+  suppressed: Set<DiffLine>;
+}
+
+/** A changed line to measure; blank and comment lines give undefined */
+function toParsedLine(
+  line: DiffLine,
+  classes: DiffLineClasses,
+  depthOf: (line: DiffLine, side: 'old' | 'new') => number,
+  multilineStrings: NonNullable<DiffLineOptions['multilineStrings']>
+): ParsedLine | undefined {
+  const trimmed = line.text.trim();
+  const opener = classes.stringOpeners.get(line);
+  if (trimmed.length === 0 || (opener === undefined && classes.commentLines.has(line))) {
+    return undefined;
+  }
+
+  const side = line.kind === 'deletion' ? 'old' : 'new';
+  return {
+    lineNumber: (side === 'old' ? line.oldLine : line.newLine) ?? 0,
+    depth: depthOf(opener ?? line, side),
+    content: trimmed,
+    side,
+    hunk: line.hunk,
+    ...(opener && multilineStrings !== 'include' ? { stringBody: multilineStrings } : {}),
+    ...(classes.suppressed.has(line) ? { suppressed: true } : {}),
+  };
+}
+
+/**
+ * Parse the hunk lines of one file into changed lines with depths.
+ *
+ * @param rawLines - The file's diff lines, from its first hunk header on
+ * @param include - Which lines to include: 'additions', 'deletions', or 'both'
+ * @param options - Comment options, context anchoring and the file's contents
+ * @returns Parsed lines with real line numbers, sides and hunks
+ */
+export function parseDiffLines(
+  rawLines: string[],
+  include: 'additions' | 'deletions' | 'both',
+  options: DiffLineOptions
+): ParsedDiffLines {
+  const { multilineStrings = 'include' } = options;
+  const diffLines = readDiffLines(rawLines);
+  const commentLines = findDiffCommentLines(diffLines, options);
+  const stringOpeners = findDiffStringBodies(diffLines, options);
+  const { suppressed, thresholdOverrides } = findDiffDirectives(diffLines, include, options);
+  const unsampled = new Set([...stringOpeners.keys(), ...suppressed]);
+  const excluded = new Set([...commentLines, ...unsampled]);
+  const units = resolveSideUnits(
+    diffLines,
+    { excluded, unsampled: options.commentMode === 'stateful' ? excluded : unsampled },
+    options
+  );
+  const continuations = options.normalizeContinuations
+    ? findContinuationDepths(diffLines, excluded, units, options)
+    : new Map<DiffLine, number>();
+  const depthOf = (line: DiffLine, side: 'old' | 'new') =>
+    continuations.get(line) ?? computeIndentDepth(line.text, units[side], options.tabWidth);
+
+  const classes = { commentLines, stringOpeners, suppressed };
+  const lines = diffLines
+    .filter((line) => shouldIncludeLine(line, include))
+    .flatMap((line) => toParsedLine(line, classes, depthOf, multilineStrings) ?? []);
+
+  const parsed = { lines, indentUnit: include === 'deletions' ? units.old : units.new };
+  return thresholdOverrides ? { ...parsed, thresholdOverrides } : parsed;
+}
@@ -0,0 +1,125 @@
+/**
+ * Parsing of unified diffs into lines with indentation depths.
+ */
+
+import type { DiffFileContents, LanguageProfile } from './types.js';
+import type { ParseOptions } from './parser.js';
+import type { DiffFile } from './unified-diff.js';
+import type { ParsedDiffLines } from './diff-lines.js';
+import { parseDiffLines } from './diff-lines.js';
+import { applyLanguageProfile, resolveLanguage } from './languages.js';
+import { splitDiff } from './unified-diff.js';
+
+export interface DiffParseOptions extends ParseOptions {
+  anchorToContext?: boolean;
+  fileContents?: Record<string, DiffFileContents>;
+  language?: string;
+}
+
+export interface ParsedDiffFile extends ParsedDiffLines {
+  file: DiffFile;
+  /** Language profile selected for the file, if any */
+  profile?: LanguageProfile;
+}
+
+export interface ParsedDiff extends ParsedDiffLines {
+  /** Language profile shared by every file, if any */
+  profile?: LanguageProfile;
+}
+
+/**
+ * Find the language profile shared by every parsed file.
+ */
+export function sharedProfile(files: ParsedDiffFile[]): LanguageProfile | undefined {
+  const profile = files[0]?.profile;
+  return files.every((f) => f.profile === profile) ? profile : undefined;
+}
+
+/**
+ * Find the threshold directives shared by every parsed file.
+ */
+export function sharedThresholdOverrides(
+  files: ParsedDiffLines[]
+): Record<string, number> | undefined {
+  const overrides = files[0]?.thresholdOverrides;
+  const key = JSON.stringify(overrides);
+  return files.every((f) => JSON.stringify(f.thresholdOverrides) === key) ? overrides : undefined;
+}
+
+/**
+ * Parse one file's section of a unified diff.
+ *
+ * @param file - The file's section, from splitDiff
+ * @param include - Which lines to include: 'additions', 'deletions', or 'both'
+ * @param options - Parsing options
+ * @returns Parsed lines tagged with the file's path
+ */
+export function parseDiffFile(
+  file: DiffFile,
+  include: 'additions' | 'deletions' | 'both',
+  options: DiffParseOptions
+): ParsedDiffFile {
+  const { path } = file;
+  const profile =
+    options.language === undefined ? undefined : resolveLanguage(options.language, path);
+  const parsed = parseDiffLines(file.lines, include, {
+    ...applyLanguageProfile(options, profile),
+    contents: options.fileContents?.[path],
+  });
+  const { lines } = parsed;
+  const fileLines = path === '' ? lines : lines.map((line) => ({ ...line, file: path }));
+  return profile
+    ? { ...parsed, file, lines: fileLines, profile }
+    : { ...parsed, file, lines: fileLines };
+}
+
+/**
+ * Parse a unified diff file by file.
+ *
+ * Indentation is detected separately for each file, so a diff mixing
+ * 2-space and 4-space sources measures each on its own scale. With
+ * `anchorToContext`, unchanged context lines (and any `fileContents` for
+ * the file's path) are used to detect the unit, so small hunks are
+ * measured at their real depth in the file.
+ *
+ * Language profiles are only applied on request: `language: 'auto'`
+ * selects one from each file's path, a profile id applies to every file.
+ *
+ * @param diff - Unified diff content
+ * @param include - Which lines to include: 'additions', 'deletions', or 'both'
+ * @param options - Parsing options
+ * @returns Parsed lines for each file in the diff
+ */
+export function parseDiffFiles(
+  diff: string,
+  include: 'additions' | 'deletions' | 'both' = 'additions',
+  options: DiffParseOptions = {}
+): ParsedDiffFile[] {
+  return splitDiff(diff).map((file) => parseDiffFile(file, include, options));
+}
+
+/**
+ * Parse a unified diff and extract lines based on filter.
+ *
+ * @param diff - Unified diff content
+ * @param include - Which lines to include: 'additions', 'deletions', or 'both'
+ * @param options - Parsing options
+ * @returns Parsed lines from all files, with the indent unit of the first file
+ *   and the language profile and threshold directives shared by all files
+ */
+export function parseDiff(
+  diff: string,
+  include: 'additions' | 'deletions' | 'both' = 'additions',
+  options: DiffParseOptions = {}
+): ParsedDiff {
+  const files = parseDiffFiles(diff, include, options);
+  const profile = sharedProfile(files);
+  const thresholdOverrides = sharedThresholdOverrides(files);
+  const parsed: ParsedDiff = {
+    lines: files.flatMap((f) => f.lines),
+    indentUnit: files[0]?.indentUnit ?? 1,
+  };
+  if (thresholdOverrides) parsed.thresholdOverrides = thresholdOverrides;
+
+  return profile ? { ...parsed, profile } : parsed;
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeComplexity,
+  analyzeDiffComplexity,
+  analyzeDiffComplexityByFile,
+  analyzeDiffDelta,
+} from './index.js';
+
+const TABLE = [
+  'const table = {',
+  '  // indent-complexity-disable -- generated state table',
+  '  a: {',
+  '    b: {',
+  '      c: {',
+  '        d: 1,',
+  '      },',
+  '    },',
+  '  },',
+  '  // indent-complexity-enable',
+  '};',
+];
+
+// Score 6: medium by default
+const DEEP = ['a', '  b', '    c', '      d', '        e'];
+
+function diffOf(path: string, lines: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${lines.length} @@`,
+    ...lines.map((line) => `+${line}`),
+  ].join('\n');
+}
+
+describe('directives', () => {
+  it('should leave out lines between disable and enable', () => {
+    const result = analyzeComplexity(TABLE.join('\n'), { includeLines: true });
+
+    expect(result.suppressedLines).toBe(7);
+    expect(result.lines.map((l) => l.line)).toEqual([1, 11]);
+    expect(result.score).toBe(0);
+  });
+
+  it('should leave out lines to the end without enable', () => {
+    const content = ['a', '# indent-complexity-disable', '  b', '    c'].join('\n');
+
+    expect(analyzeComplexity(content, { verbose: true })).toMatchObject({
+      lineCount: 1,
+      suppressedLines: 2,
+    });
+  });
+
+  it('should leave out the line after disable-next-line', () => {
+    const content = [
+      'switch (x) {',
+      '  /* indent-complexity-disable-next-line */',
+      '          case 1: deep();',
+      '  case 2: run();',
+      '}',
+    ].join('\n');
+    const result = analyzeComplexity(content, { includeLines: true });
+
+    expect(result.suppressedLines).toBe(1);
+    expect(result.lines.map((l) => l.line)).toEqual([1, 4, 5]);
+  });
+
+  it('should only read directives from comment lines of their own', () => {
+    const content = ['a', "  log('indent-complexity-disable');", '  b'].join('\n');
+
+    expect(analyzeComplexity(content, { verbose: true }).suppressedLines).toBe(0);
+  });
+
+  it('should not read directives from string literals', () => {
+    const content = ['const names = [', '  "indent-complexity-disable",', '  deep,', '];'].join(
+      '\n'
+    );
+
+    expect(analyzeComplexity(content, { verbose: true }).suppressedLines).toBe(0);
+    expect(
+      analyzeDiffComplexity(diffOf('names.ts', content.split('\n')), { verbose: true })
+    ).toMatchObject({
+      suppressedLines: 0,
+    });
+  });
+
+  it('should read directives after the comment markers of the language', () => {
+    const content = ['a', '-- indent-complexity-disable', '  b'].join('\n');
+
+    expect(analyzeComplexity(content, { verbose: true, filename: 'q.sql' }).suppressedLines).toBe(
+      1
+    );
+    expect(analyzeComplexity(content, { verbose: true, filename: 'q.json' }).suppressedLines).toBe(
+      0
+    );
+  });
+
+  it('should leave suppressed lines out of blocks', () => {
+    const content = [
+      'function f() {',
+      '  run();',
+      '  // indent-complexity-disable',
+      '  if (x) {',
+      '    if (y) {',
+      '      deep();',
+      '    }',
+      '  }',
+      '  // indent-complexity-enable',
+      '}',
+    ];
+    const { blocks } = analyzeComplexity(content.join('\n'), { blocks: true });
+
+    expect(blocks).toEqual([expect.objectContaining({ startLine: 1, lineCount: 3, max: 1 })]);
+  });
+
+  it('should override thresholds for the file and report them', () => {
+    const content = ['// indent-complexity thresholds medium=8 high=14', ...DEEP];
+    const result = analyzeComplexity(content.join('\n'), { verbose: true });
+
+    expect(result.level).toBe('low');
+    expect(result.thresholdOverrides).toEqual({ medium: 8, high: 14 });
+    expect(analyzeComplexity(content.slice(1).join('\n')).level).toBe('medium');
+  });
+
+  it('should override thresholds of custom levels by name', () => {
+    const levels = [{ name: 'ok' }, { name: 'watch', threshold: 1 }] as const;
+    const content = '# indent-complexity thresholds watch=5\na\n  b\n    c';
+
+    expect(analyzeComplexity(content, { levels }).level).toBe('ok');
+  });
+
+  it('should be honored by analyzeDiffComplexity', () => {
+    const lines = ['// indent-complexity thresholds high=100', ...TABLE];
+    const result = analyzeDiffComplexity(diffOf('src/table.ts', lines), { verbose: true });
+
+    expect(result).toMatchObject({
+      lineCount: 2,
+      suppressedLines: 7,
+      thresholdOverrides: { high: 100 },
+    });
+  });
+
+  it('should apply threshold directives per file in diffs', () => {
+    const diff = [
+      diffOf('relaxed.ts', ['// indent-complexity thresholds medium=50', ...DEEP]),
+      diffOf('strict.ts', DEEP),
+    ].join('\n');
+    const { files, aggregate } = analyzeDiffComplexityByFile(diff, { verbose: true });
+
+    expect(files.map((f) => f.result.level)).toEqual(['low', 'medium']);
+    expect(aggregate.thresholdOverrides).toBeUndefined();
+  });
+
+  it('should leave suppressed lines out of both sides of a delta', () => {
+    const diff = [
+      '--- a/x.ts',
+      '+++ b/x.ts',
+      '@@ -1,3 +1,3 @@',
+      ' // indent-complexity-disable',
+      '-    old();',
+      '+        new();',
+      ' // indent-complexity-enable',
+    ].join('\n');
+    const delta = analyzeDiffDelta(diff);
+
+    expect(delta.before.suppressedLines).toBe(1);
+    expect(delta.after.suppressedLines).toBe(1);
+    expect(delta.scoreDelta).toBe(0);
+  });
+});
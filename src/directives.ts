@@ -0,0 +1,86 @@
+/**
+ * Inline directives: comments that suppress the measurement of lines or
+ * override a file's thresholds.
+ *
+ * ```
+ * // indent-complexity-disable -- generated state table
+ * // indent-complexity-enable
+ * // indent-complexity-disable-next-line
+ * // indent-complexity thresholds medium=6 high=14
+ * ```
+ */
+
+import type { CommentOptions } from './comments.js';
+import { DEFAULT_COMMENT_SYNTAX } from './constants.js';
+
+/** Directives found in a file's lines */
+export interface DirectiveScan {
+  /** Lines left out of the analysis, by index */
+  suppressed: boolean[];
+  /** Thresholds set by `thresholds` directives, by level name */
+  thresholdOverrides?: Record<string, number>;
+}
+
+/** The directive, and optionally `-- reason` or a block close */
+const DIRECTIVE_BODY = String.raw`indent-complexity(?:-(disable-next-line|disable|enable)|\s+thresholds((?:\s+[\w-]+=\d+(?:\.\d+)?)+))(?:\s+--\s.*|[^\w]*)$`;
+
+/**
+ * A directive is a comment of its own: a line or block comment marker of
+ * the comment syntax (`//`, `#`, `/*`, ...), possibly doubled (`///`,
+ * `/**`), then the directive. Quotes cannot follow the marker, so string
+ * literals are not directives.
+ */
+function directivePattern(options: CommentOptions): RegExp {
+  const { line, block } = { ...DEFAULT_COMMENT_SYNTAX, ...options.commentSyntax };
+  const markers = [...line, ...block.map((delimiter) => delimiter.open)]
+    .filter((marker) => marker !== '')
+    .map((marker) => marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Without comment syntax, nothing is a directive
+  if (markers.length === 0) return /(?!)/;
+  return new RegExp(String.raw`^\s*(?:${markers.join('|')})[^\w\s'"\`]*\s*${DIRECTIVE_BODY}`);
+}
+
+function parseThresholds(assignments: string): Record<string, number> {
+  return Object.fromEntries(
+    assignments
+      .trim()
+      .split(/\s+/)
+      .map((assignment) => {
+        const [level = '', value = ''] = assignment.split('=');
+        return [level, Number(value)];
+      })
+  );
+}
+
+/**
+ * Find the directives in a file's lines.
+ *
+ * `indent-complexity-disable` suppresses the lines after it up to
+ * `indent-complexity-enable` (or the end), `-disable-next-line` the line
+ * after it. `indent-complexity thresholds` sets level thresholds for the
+ * whole file; later directives win.
+ *
+ * @param rawLines - Lines of the file, or of a diff hunk
+ * @param options - Comment syntax whose markers start directives
+ */
+export function findDirectives(
+  rawLines: readonly string[],
+  options: CommentOptions = {}
+): DirectiveScan {
+  const directive = directivePattern(options);
+  const suppressed = rawLines.map(() => false);
+  let thresholdOverrides: Record<string, number> | undefined;
+  let disabled = false;
+
+  rawLines.forEach((line, i) => {
+    const [, kind, thresholds] = directive.exec(line) ?? [];
+    if (kind === 'disable') disabled = true;
+    if (kind === 'enable') disabled = false;
+    if (kind === 'disable-next-line' && i + 1 < suppressed.length) suppressed[i + 1] = true;
+    if (thresholds) thresholdOverrides = { ...thresholdOverrides, ...parseThresholds(thresholds) };
+
+    if (disabled) suppressed[i] = true;
+  });
+
+  return thresholdOverrides ? { suppressed, thresholdOverrides } : { suppressed };
+}
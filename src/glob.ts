@@ -0,0 +1,147 @@
+/**
+ * Minimal glob matching and expansion for file discovery.
+ *
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`; paths are matched in
+ * POSIX form relative to the working directory.
+ */
+
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const GLOB_MAGIC = /[*?[\]{}]/;
+/** Directories never walked */
+export const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Check whether a pattern contains glob syntax.
+ */
+export function hasGlobMagic(pattern: string): boolean {
+  return GLOB_MAGIC.test(pattern);
+}
+
+function translateStar(pattern: string, i: number): [source: string, consumed: number] {
+  if (pattern[i + 1] !== '*') return ['[^/]*', 1];
+  if (pattern[i + 2] === '/') return ['(?:.*/)?', 3];
+  return ['.*', 2];
+}
+
+function translateClass(pattern: string, i: number): [source: string, consumed: number] {
+  const end = pattern.indexOf(']', i + 1);
+  if (end === -1) return ['\\[', 1];
+  const body = pattern.slice(i + 1, end).replace(/^!/, '^');
+  return [`[${body}]`, end - i + 1];
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ *
+ * @param pattern - Glob pattern using `/` separators
+ * @returns Regex matching whole relative paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i] ?? '';
+    let consumed = 1;
+
+    if (char === '*') {
+      const [part, length] = translateStar(pattern, i);
+      source += part;
+      consumed = length;
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const [part, length] = translateClass(pattern, i);
+      source += part;
+      consumed = length;
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\{}]/g, '\\$&');
+    }
+
+    i += consumed;
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Recursively list files under a directory, skipping node_modules and .git.
+ *
+ * @param dir - Absolute directory to walk
+ * @returns Absolute file paths
+ */
+export async function walkFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return SKIPPED_DIRECTORIES.has(entry.name) ? [] : walkFiles(fullPath);
+      }
+      return entry.isFile() ? [fullPath] : [];
+    })
+  );
+
+  return nested.flat();
+}
+
+function staticBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const firstMagic = segments.findIndex(hasGlobMagic);
+  return segments.slice(0, firstMagic).join('/') || '.';
+}
+
+async function expandPattern(pattern: string, cwd: string): Promise<string[]> {
+  const normalized = toPosix(pattern).replace(/^\.\//, '');
+  const base = path.resolve(cwd, staticBase(normalized));
+  const matcher = globToRegExp(normalized);
+
+  const exists = await stat(base).then(
+    (s) => s.isDirectory(),
+    () => false
+  );
+  if (!exists) return [];
+
+  const files = await walkFiles(base);
+  return files
+    .map((file) =>
+      path.isAbsolute(normalized) ? toPosix(file) : toPosix(path.relative(cwd, file))
+    )
+    .filter((file) => matcher.test(file));
+}
+
+/**
+ * Expand file arguments into a de-duplicated list of paths.
+ *
+ * Arguments without glob syntax are kept as-is, so missing files surface
+ * as read errors rather than silently disappearing.
+ *
+ * @param patterns - File paths and glob patterns
+ * @param cwd - Directory that relative patterns resolve against
+ * @returns Matching paths (sorted per pattern), relative to cwd unless the pattern was absolute
+ */
+export async function expandGlobs(patterns: string[], cwd: string): Promise<string[]> {
+  const expanded = await Promise.all(
+    patterns.map(async (pattern) =>
+      hasGlobMagic(pattern) ? (await expandPattern(pattern, cwd)).sort() : [pattern]
+    )
+  );
+
+  return [...new Set(expanded.flat())];
+}
@@ -0,0 +1,173 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { analyzeHistory } from './index.js';
+import { runCli } from './cli-runner.js';
+
+const FLAT = `function load() {
+  return 1;
+}
+`;
+
+const NESTED = `function load() {
+  if (a) {
+    if (b) {
+      return 1;
+    }
+  }
+}
+`;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Dev',
+      '-c',
+      'user.email=dev@example.com',
+      '-c',
+      'commit.gpgsign=false',
+      ...args,
+    ],
+    { cwd, encoding: 'utf8' }
+  );
+}
+
+function createIO(cwd: string) {
+  const io = {
+    cwd,
+    out: '',
+    readStdin: () => Promise.resolve(''),
+    readFile: () => Promise.resolve(''),
+    writeFile: () => Promise.resolve(),
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: () => undefined,
+  };
+  return io;
+}
+
+async function commit(cwd: string, file: string, content: string, message: string) {
+  await fs.mkdir(path.dirname(path.join(cwd, file)), { recursive: true });
+  await fs.writeFile(path.join(cwd, file), content);
+  git(cwd, 'add', '-A');
+  git(cwd, 'commit', '-q', '-m', message);
+}
+
+describe('analyzeHistory', () => {
+  let cwd: string;
+
+  beforeAll(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-history-'));
+    git(cwd, 'init', '-q');
+    await commit(cwd, 'src/load.ts', FLAT, 'Add load');
+    await commit(cwd, 'README.md', '# Readme\n', 'Add readme');
+    await commit(cwd, 'src/load.ts', NESTED, 'Nest load, "deeply"');
+    git(cwd, 'mv', 'src/load.ts', 'src/loader.ts');
+    git(cwd, 'commit', '-q', '-m', 'Rename load');
+    await commit(cwd, 'src/loader.ts', FLAT, 'Flatten load');
+
+    return () => fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should analyze each commit of the file, oldest first, across renames', async () => {
+    const points = await analyzeHistory('src/loader.ts', { cwd });
+
+    expect(points.map((p) => [p.subject, p.path])).toEqual([
+      ['Add load', 'src/load.ts'],
+      ['Nest load, "deeply"', 'src/load.ts'],
+      ['Rename load', 'src/loader.ts'],
+      ['Flatten load', 'src/loader.ts'],
+    ]);
+    expect(points.map((p) => p.result.max)).toEqual([1, 3, 3, 1]);
+    expect(points[0]?.commit).toMatch(/^[0-9a-f]{40}$/);
+    expect(points[0]?.author).toBe('Dev');
+    expect(points[0]?.result.language).toBe('typescript');
+  });
+
+  it('should score the lines each commit added, and the change from the previous commit', async () => {
+    const points = await analyzeHistory('src/loader.ts', { cwd });
+    const nested = points[1];
+
+    expect(nested?.patch.lineCount).toBe(5);
+    expect(nested?.patch.max).toBe(3);
+    expect(points[2]?.patch.lineCount).toBe(0);
+    expect(points[0]?.scoreChange).toBe(0);
+    expect(nested?.scoreChange).toBeCloseTo(
+      (nested?.result.score ?? 0) - (points[0]?.result.score ?? 0)
+    );
+  });
+
+  it('should resolve paths from a subdirectory of the repository', async () => {
+    const points = await analyzeHistory('loader.ts', { cwd: path.join(cwd, 'src') });
+
+    expect(points.map((p) => p.path)).toEqual([
+      'src/load.ts',
+      'src/load.ts',
+      'src/loader.ts',
+      'src/loader.ts',
+    ]);
+    expect(points.map((p) => p.patch.lineCount)).toEqual([3, 5, 0, 1]);
+  });
+
+  it('should analyze an absolute path into another repository', async () => {
+    const other = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-other-'));
+    try {
+      git(other, 'init', '-q');
+      await commit(other, 'lib/deep.ts', NESTED, 'Add deep');
+      const points = await analyzeHistory(path.join(other, 'lib', 'deep.ts'), { cwd });
+
+      expect(points.map((p) => [p.subject, p.path, p.result.max])).toEqual([
+        ['Add deep', 'lib/deep.ts', 3],
+      ]);
+    } finally {
+      await fs.rm(other, { recursive: true, force: true });
+    }
+  });
+
+  it('should analyze the added lines with the language of the file', async () => {
+    const source =
+      'def load():\n    """\n            docstring\n                text\n    """\n    return 1\n';
+    await commit(cwd, 'py/load.py', source, 'Add python');
+    const points = await analyzeHistory('py/load.py', { cwd });
+
+    expect(points[0]?.patch.language).toBe('python');
+    expect(points[0]?.patch.max).toBe(points[0]?.result.max);
+    expect(points[0]?.patch.score).toBeCloseTo(points[0]?.result.score ?? 0);
+  });
+
+  it('should keep only the most recent commits with maxCount', async () => {
+    const points = await analyzeHistory('src/loader.ts', { cwd, maxCount: 2 });
+
+    expect(points.map((p) => p.subject)).toEqual(['Rename load', 'Flatten load']);
+  });
+
+  it('should fail outside a repository', async () => {
+    await expect(analyzeHistory('a.ts', { cwd: os.tmpdir() })).rejects.toThrow(/^git log failed/);
+  });
+
+  it('should print history from the CLI with --history', async () => {
+    const io = createIO(cwd);
+
+    expect(await runCli(['--history', 'src/loader.ts', '--max-count', '2'], io)).toBe(0);
+    expect(io.out).toMatch(/^Commit\s+Date\s+Score\s+Change\s+Level\s+Max\s+Patch\s+Subject$/m);
+    expect(io.out).toMatch(/-\d+\.\d{2}\s+low\s+1\s+\d+\.\d{2}\s+Flatten load$/m);
+    expect(await runCli(['--history', 'src/loader.ts', 'README.md'], createIO(cwd))).toBe(2);
+  });
+
+  it('should print history as CSV with quoted fields', async () => {
+    const io = createIO(cwd);
+    await runCli(['--history', 'src/loader.ts', '--format', 'csv'], io);
+    const rows = io.out.trimEnd().split('\r\n');
+
+    expect(rows[0]).toBe(
+      'commit,date,author,path,score,level,variance,max,lineCount,scoreChange,patchScore,patchMax,patchLineCount,subject'
+    );
+    expect(rows).toHaveLength(5);
+    expect(rows[2]).toMatch(/,"Nest load, ""deeply"""$/);
+  });
+});
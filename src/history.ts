@@ -0,0 +1,197 @@
+/**
+ * Complexity of a file across its git history, read with the `git` CLI.
+ */
+
+import { execFile } from 'node:child_process';
+import { dirname, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import type { AnalyzeOptions, ComplexityResultVerbose } from './types.js';
+import { analyzeComplexity } from './analyze.js';
+import { analyzeDiffComplexity } from './analyze-diff.js';
+import { mapConcurrent } from './concurrency.js';
+import { csvField } from './report.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Options for analyzeHistory */
+export interface HistoryOptions extends Omit<
+  AnalyzeOptions,
+  'filename' | 'verbose' | 'includeLines' | 'blocks'
+> {
+  /** Directory that a relative path resolves against. Default: process.cwd() */
+  cwd?: string;
+  /** Revision whose history is walked. Default: 'HEAD' */
+  ref?: string;
+  /** Only the most recent commits, at most this many */
+  maxCount?: number;
+  /** Number of git processes run at once. Default: 4 */
+  concurrency?: number;
+}
+
+/** Complexity of a file at one commit (from analyzeHistory) */
+export interface HistoryPoint {
+  commit: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  author: string;
+  subject: string;
+  /** Path of the file at this commit, relative to the repository root */
+  path: string;
+  /** The file at this commit */
+  result: ComplexityResultVerbose;
+  /** Lines the commit added to the file */
+  patch: ComplexityResultVerbose;
+  /** Score change from the previous point (0 for the first) */
+  scoreChange: number;
+}
+
+interface HistoryCommit {
+  commit: string;
+  date: string;
+  author: string;
+  subject: string;
+  path: string;
+  /** Path before a rename or copy */
+  previousPath?: string;
+}
+
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+const DEFAULT_CONCURRENCY = 4;
+/** Whole revisions of large files go through stdout */
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+async function git(args: string[], cwd: string | undefined): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd,
+      maxBuffer: MAX_BUFFER,
+      encoding: 'utf8',
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`, { cause: error });
+  }
+}
+
+/**
+ * Parse one `git log --name-status` record. Merges list no files and
+ * deletions have no content, so both are dropped.
+ */
+function parseCommit(record: string): HistoryCommit | undefined {
+  const [header = '', ...files] = record.split('\n').filter((line) => line.length > 0);
+  const [commit = '', date = '', author = '', subject = ''] = header.split(FIELD);
+  const status = files[0]?.split('\t');
+  if (!status || status[0]?.startsWith('D')) return undefined;
+
+  const path = status[status.length - 1] ?? '';
+  const previousPath = status.length > 2 ? status[1] : undefined;
+  return { commit, date, author, subject, path, ...(previousPath ? { previousPath } : {}) };
+}
+
+async function listCommits(path: string, options: HistoryOptions): Promise<HistoryCommit[]> {
+  const args = [
+    'log',
+    '--follow',
+    '--name-status',
+    `--format=${RECORD}%H${FIELD}%aI${FIELD}%an${FIELD}%s`,
+  ];
+  if (options.maxCount !== undefined) args.push(`--max-count=${options.maxCount}`);
+  args.push(options.ref ?? 'HEAD', '--', path);
+
+  const log = await git(args, options.cwd);
+  const commits = log.split(RECORD).flatMap((record) => parseCommit(record) ?? []);
+  // git lists newest first
+  return commits.reverse();
+}
+
+async function analyzeCommit(
+  commit: HistoryCommit,
+  options: HistoryOptions
+): Promise<Omit<HistoryPoint, 'scoreChange'>> {
+  // git log lists paths from the repository root, where `:(top)` resolves them
+  const paths = (commit.previousPath ? [commit.previousPath, commit.path] : [commit.path]).map(
+    (path) => `:(top)${path}`
+  );
+  const [content, diff] = await Promise.all([
+    git(['show', `${commit.commit}:${commit.path}`], options.cwd),
+    git(['show', '--format=', '--find-renames', commit.commit, '--', ...paths], options.cwd),
+  ]);
+
+  const analyzeOptions = { ...options, filename: commit.path, verbose: true } as const;
+  // Diffs only get a language profile when asked for one
+  const language = options.language ?? 'auto';
+  return {
+    ...commit,
+    result: analyzeComplexity(content, analyzeOptions),
+    patch: analyzeDiffComplexity(diff, { ...analyzeOptions, language, include: 'additions' }),
+  };
+}
+
+/**
+ * Analyze every revision of a file in the local git history, following
+ * renames.
+ *
+ * Each commit that changed the file gives a point with the complexity of
+ * the whole file at that commit, and of the lines the commit added. Merge
+ * commits and the commit deleting the file are left out.
+ *
+ * @param path - File path, relative to `cwd` or absolute. Git runs from
+ *   the file's directory, so the file may be in another repository.
+ * @param options - Analysis options, and where and how far to walk
+ * @returns Points ordered from oldest to newest commit
+ * @throws Error if git fails, e.g. outside a repository
+ *
+ * @example
+ * ```typescript
+ * const points = await analyzeHistory('src/parser.ts', { maxCount: 50 });
+ * const worst = points.reduce((a, b) => (b.scoreChange > a.scoreChange ? b : a));
+ * console.log(`${worst.commit} ${worst.subject}: +${worst.scoreChange.toFixed(2)}`);
+ * ```
+ */
+export async function analyzeHistory(
+  path: string,
+  options: HistoryOptions = {}
+): Promise<HistoryPoint[]> {
+  const file = resolve(options.cwd ?? process.cwd(), path);
+  const gitOptions = { ...options, cwd: dirname(file) };
+  const commits = await listCommits(file, gitOptions);
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const points = await mapConcurrent(commits, concurrency, (commit) =>
+    analyzeCommit(commit, gitOptions)
+  );
+
+  return points.map((point, i) => ({
+    ...point,
+    scoreChange: i === 0 ? 0 : point.result.score - (points[i - 1]?.result.score ?? 0),
+  }));
+}
+
+const CSV_COLUMNS: [header: string, value: (point: HistoryPoint) => string | number][] = [
+  ['commit', (p) => p.commit],
+  ['date', (p) => p.date],
+  ['author', (p) => p.author],
+  ['path', (p) => p.path],
+  ['score', (p) => p.result.score],
+  ['level', (p) => p.result.level],
+  ['variance', (p) => p.result.variance],
+  ['max', (p) => p.result.max],
+  ['lineCount', (p) => p.result.lineCount],
+  ['scoreChange', (p) => p.scoreChange],
+  ['patchScore', (p) => p.patch.score],
+  ['patchMax', (p) => p.patch.max],
+  ['patchLineCount', (p) => p.patch.lineCount],
+  ['subject', (p) => p.subject],
+];
+
+/**
+ * Render history points as CSV (RFC 4180), one row per commit.
+ */
+export function formatHistoryCsv(points: HistoryPoint[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...points.map((point) => CSV_COLUMNS.map(([, value]) => csvField(value(point)))),
+  ];
+  return rows.map((row) => `${row.join(',')}\r\n`).join('');
+}
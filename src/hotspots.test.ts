@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { findHotspots } from './index.js';
+
+describe('findHotspots', () => {
+  const flat = (count: number) => Array.from({ length: count }, (_, i) => `flat${i}();`);
+  const nest = (levels: number) => [
+    ...Array.from({ length: levels }, (_, i) => `${'  '.repeat(i)}if (x${i}) {`),
+    `${'  '.repeat(levels)}run();`,
+    ...Array.from({ length: levels }, (_, i) => `${'  '.repeat(levels - 1 - i)}}`),
+  ];
+
+  it('should return no hotspots for flat code', () => {
+    expect(findHotspots(flat(30).join('\n'))).toEqual([]);
+  });
+
+  it('should find a deeply nested region with its contribution', () => {
+    const content = [...flat(20), ...nest(5), ...flat(20)].join('\n');
+    const [hotspot, ...rest] = findHotspots(content, { windowSize: 5 });
+
+    expect(rest).toEqual([]);
+    expect(hotspot).toMatchObject({ startLine: 22, endLine: 30, lineCount: 9, max: 5 });
+    expect(hotspot?.score).toBeCloseTo(85 / 9);
+    expect(hotspot?.contribution).toBe(1);
+  });
+
+  it('should merge overlapping hot windows and rank regions worst first', () => {
+    const content = [...nest(3), ...flat(20), ...nest(6), ...flat(20)].join('\n');
+    const hotspots = findHotspots(content, { windowSize: 4, minScore: 2 });
+
+    expect(hotspots.map((h) => [h.startLine, h.max])).toEqual([
+      [29, 6],
+      [2, 3],
+    ]);
+    expect(hotspots.reduce((sum, h) => sum + h.contribution, 0)).toBeCloseTo(1);
+  });
+
+  it('should limit the number of hotspots', () => {
+    const content = [...nest(3), ...flat(10), ...nest(4), ...flat(10), ...nest(5)].join('\n');
+
+    expect(findHotspots(content, { windowSize: 3, minScore: 2 })).toHaveLength(3);
+    expect(findHotspots(content, { windowSize: 3, minScore: 2, limit: 1 })).toHaveLength(1);
+  });
+
+  it('should use the whole file when it is shorter than the window', () => {
+    const [hotspot] = findHotspots(nest(4).join('\n'), { minScore: 1 });
+
+    expect(hotspot).toMatchObject({ startLine: 2, endLine: 8, max: 4 });
+  });
+});
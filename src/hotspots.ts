@@ -0,0 +1,157 @@
+/**
+ * Hotspot detection: the most deeply nested regions of a file, found by
+ * sliding a window over its lines.
+ */
+
+import type { AnalyzeOptions } from './types.js';
+import type { ParsedLine } from './parser.js';
+import { parseSource } from './source.js';
+import { measuredLines } from './result-builder.js';
+import { resolveThresholds } from './assessment.js';
+
+/** Options for findHotspots */
+export interface HotspotOptions extends Omit<
+  AnalyzeOptions,
+  'verbose' | 'includeLines' | 'blocks' | 'scorer' | 'levels'
+> {
+  /** Number of consecutive lines in each window. Default: 20 */
+  windowSize?: number;
+  /** Windows scoring at or above this are hot. Default: the medium threshold */
+  minScore?: number;
+  /** Maximum number of hotspots returned. Default: 5 */
+  limit?: number;
+}
+
+/** A deeply nested region of a file (from findHotspots) */
+export interface Hotspot {
+  /** 1-indexed first line of the region */
+  startLine: number;
+  /** 1-indexed last line of the region */
+  endLine: number;
+  /** Number of lines analyzed in the region */
+  lineCount: number;
+  /** Σ(depth²) / lineCount over the region's lines */
+  score: number;
+  /** Maximum indentation depth in the region */
+  max: number;
+  /** Share of the file's Σ(depth²) in this region, from 0 to 1 */
+  contribution: number;
+}
+
+const DEFAULT_WINDOW_SIZE = 20;
+const DEFAULT_HOTSPOT_LIMIT = 5;
+
+/** Half-open range of line indexes */
+interface Range {
+  start: number;
+  end: number;
+}
+
+/** Running totals of depth²: sums[i] covers the first i lines */
+function prefixSquares(depths: number[]): number[] {
+  const sums = [0];
+  for (const depth of depths) sums.push((sums.at(-1) ?? 0) + depth * depth);
+  return sums;
+}
+
+function sumSquares(sums: number[], range: Range): number {
+  return (sums[range.end] ?? 0) - (sums[range.start] ?? 0);
+}
+
+/** Merge hot windows that overlap or touch into regions */
+function findHotRegions(sums: number[], size: number, minScore: number): Range[] {
+  const regions: Range[] = [];
+  const lineCount = sums.length - 1;
+
+  for (let start = 0; start + size <= lineCount; start++) {
+    const window = { start, end: start + size };
+    if (sumSquares(sums, window) / size < minScore) continue;
+
+    const last = regions.at(-1);
+    if (last && window.start <= last.end) last.end = window.end;
+    else regions.push(window);
+  }
+
+  return regions;
+}
+
+/** Drop flat lines at either edge of a region */
+function trimRegion(depths: number[], region: Range): Range {
+  let { start, end } = region;
+  while (start < end && depths[start] === 0) start++;
+  while (end > start && depths[end - 1] === 0) end--;
+  return { start, end };
+}
+
+function toHotspot(lines: ParsedLine[], sums: number[], region: Range): Hotspot {
+  const regionLines = lines.slice(region.start, region.end);
+  const squares = sumSquares(sums, region);
+  const total = sums.at(-1) ?? 0;
+
+  return {
+    startLine: regionLines[0]?.lineNumber ?? 0,
+    endLine: regionLines.at(-1)?.lineNumber ?? 0,
+    lineCount: regionLines.length,
+    score: squares / regionLines.length,
+    max: regionLines.reduce((max, l) => Math.max(max, l.depth), 0),
+    contribution: total === 0 ? 0 : squares / total,
+  };
+}
+
+/**
+ * Find hotspots in parsed lines.
+ *
+ * Every window of `windowSize` consecutive lines scoring at least
+ * `minScore` is hot. Overlapping hot windows merge into one region, and
+ * flat lines at its edges are trimmed.
+ *
+ * @param lines - Parsed lines in source order
+ * @param options - Window size, score cut-off and number of hotspots
+ * @returns Hotspots sorted by score (highest first), then by position
+ */
+export function detectHotspots(
+  lines: ParsedLine[],
+  options: { windowSize?: number; minScore: number; limit?: number }
+): Hotspot[] {
+  const { windowSize = DEFAULT_WINDOW_SIZE, minScore, limit = DEFAULT_HOTSPOT_LIMIT } = options;
+  const measured = measuredLines(lines);
+  if (measured.length === 0) return [];
+
+  const depths = measured.map((l) => l.depth);
+  const sums = prefixSquares(depths);
+  const size = Math.max(1, Math.min(windowSize, measured.length));
+
+  return findHotRegions(sums, size, minScore)
+    .map((region) => trimRegion(depths, region))
+    .filter((region) => region.end > region.start)
+    .map((region) => toHotspot(measured, sums, region))
+    .sort((a, b) => b.score - a.score || a.startLine - b.startLine)
+    .slice(0, limit);
+}
+
+/**
+ * Find the most deeply nested regions of source code.
+ *
+ * A window of `windowSize` lines slides over the code; windows scoring at
+ * or above `minScore` (default: the medium threshold) are merged into
+ * hotspots with their own score, max depth and share of the file's
+ * Σ(depth²).
+ *
+ * @example
+ * ```typescript
+ * for (const hotspot of findHotspots(code, { filename: 'app.ts', limit: 3 })) {
+ *   const percent = Math.round(hotspot.contribution * 100);
+ *   console.log(`lines ${hotspot.startLine}-${hotspot.endLine}: ${percent}% of complexity`);
+ * }
+ * ```
+ */
+export function findHotspots(content: string, options: HotspotOptions = {}): Hotspot[] {
+  const { lines, profile } = parseSource(content, options);
+  const thresholds = resolveThresholds({ ...profile?.thresholds, ...options.thresholds });
+
+  return detectHotspots(lines, {
+    windowSize: options.windowSize,
+    minScore: options.minScore ?? thresholds.medium,
+    limit: options.limit,
+  });
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeComplexity, createIncrementalAnalyzer } from './index.js';
+import type { ComplexityResultVerbose, TextEdit } from './index.js';
+
+const CODE = `function load(items) {
+  for (const item of items) {
+    if (item.ok) {
+      run(item);
+    }
+  }
+  return items;
+}`;
+
+function at(line: number, character: number, endLine = line, endCharacter = character) {
+  return {
+    start: { line, character },
+    end: { line: endLine, character: endCharacter },
+  };
+}
+
+function insert(line: number, character: number, text: string): TextEdit {
+  return { range: at(line, character), text };
+}
+
+function expectSameResult(result: ComplexityResultVerbose, full: ComplexityResultVerbose) {
+  expect(result).toEqual({
+    ...full,
+    variance: expect.closeTo(full.variance, 10),
+    stdDev: expect.closeTo(full.stdDev, 10),
+    skewness: expect.closeTo(full.skewness, 10),
+    kurtosis: expect.closeTo(full.kurtosis, 10),
+  });
+}
+
+describe('createIncrementalAnalyzer', () => {
+  it('should start with the result of analyzeComplexity', () => {
+    const analyzer = createIncrementalAnalyzer(CODE, { filename: 'load.ts' });
+
+    expect(analyzer.result()).toEqual(
+      analyzeComplexity(CODE, { filename: 'load.ts', verbose: true })
+    );
+  });
+
+  it('should match a full analysis after each edit', () => {
+    const analyzer = createIncrementalAnalyzer(CODE, { filename: 'load.ts' });
+    const edits: TextEdit[] = [
+      insert(4, 0, '      if (item.deep) {\n        deeper(item);\n      }\n'),
+      { range: at(1, 2, 1, 5), text: 'while' },
+      { range: at(2, 0, 4, 0), text: '' },
+      insert(0, 0, '// header\n'),
+      insert(100, 0, '\nexport default load;'),
+    ];
+
+    for (const edit of edits) {
+      const result = analyzer.applyEdits([edit]);
+
+      expectSameResult(
+        result,
+        analyzeComplexity(analyzer.content(), { filename: 'load.ts', verbose: true })
+      );
+    }
+  });
+
+  it('should rescan lines after an edit that opens a block comment', () => {
+    const analyzer = createIncrementalAnalyzer(CODE, { filename: 'load.ts' });
+    const opened = analyzer.applyEdits([insert(1, 0, '  /*\n')]);
+
+    expect(opened.lineCount).toBe(1);
+    expect(analyzer.lineDepths().slice(0, 3)).toEqual([0, undefined, undefined]);
+
+    const closed = analyzer.applyEdits([insert(1, 4, ' */')]);
+
+    expect(closed.lineCount).toBe(8);
+    expect(analyzer.content().split('\n')[1]).toBe('  /* */');
+  });
+
+  it('should update pinned string bodies when their opener moves', () => {
+    const content = 'if (a) {\n  x();\n  const q = `\n      SELECT 1\n  `;\n}';
+    const options = { filename: 'q.ts', multilineStrings: 'pin' } as const;
+    const analyzer = createIncrementalAnalyzer(content, options);
+    analyzer.applyEdits([insert(2, 0, '  ')]);
+
+    expect(analyzer.lineDepths()).toEqual([0, 1, 2, 2, 2, 0]);
+    expectSameResult(
+      analyzer.result(),
+      analyzeComplexity(analyzer.content(), { ...options, verbose: true })
+    );
+  });
+
+  it('should apply several edits in order', () => {
+    const analyzer = createIncrementalAnalyzer('a\nb');
+    analyzer.applyEdits([insert(1, 0, '  '), insert(1, 0, '  ')]);
+
+    expect(analyzer.content()).toBe('a\n    b');
+  });
+
+  it('should keep the indent unit across range edits', () => {
+    const analyzer = createIncrementalAnalyzer('a\n  b\n    c');
+    analyzer.applyEdits([{ range: at(0, 0, 2, 5), text: 'x\n    y' }]);
+
+    expect(analyzer.lineDepths()).toEqual([0, 2]);
+  });
+
+  it('should replace the document and detect the unit again without a range', () => {
+    const analyzer = createIncrementalAnalyzer('a\n  b');
+    const result = analyzer.applyEdits([{ text: 'x\n    y' }]);
+
+    expect(analyzer.lineDepths()).toEqual([0, 1]);
+    expectSameResult(result, analyzeComplexity('x\n    y', { verbose: true }));
+  });
+
+  it('should detect the unit from comment lines too, except in stateful mode', () => {
+    const content = 'a\n    b\n  // x\n    // y\n      // z\n    c';
+    const comments = [undefined, undefined, undefined];
+
+    expect(createIncrementalAnalyzer(content).lineDepths()).toEqual([0, 2, ...comments, 2]);
+    expect(createIncrementalAnalyzer(content, { commentMode: 'stateful' }).lineDepths()).toEqual([
+      0,
+      1,
+      ...comments,
+      1,
+    ]);
+  });
+});
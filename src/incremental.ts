@@ -0,0 +1,291 @@
+/**
+ * Incremental re-analysis for editors: apply text edits and update only
+ * the lines they affect.
+ */
+
+import type { AnalyzeOptions, ComplexityResultVerbose } from './types.js';
+import type { ScanState } from './comments.js';
+import { createLineScanner } from './line-classifier.js';
+import { computeIndentDepth, detectIndentUnit } from './parser.js';
+import { computeHistogramStatistics } from './statistics.js';
+import { buildSummaryResult } from './result-builder.js';
+import { applyLanguageProfile, resolveLanguage } from './languages.js';
+
+/** Position in a document: 0-indexed line and character, as in LSP */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+/** Replacement of a range of text; without a range, of the whole document */
+export interface TextEdit {
+  range?: { start: TextPosition; end: TextPosition };
+  text: string;
+}
+
+/** Options for createIncrementalAnalyzer */
+export type IncrementalOptions = Omit<
+  AnalyzeOptions,
+  'verbose' | 'includeLines' | 'blocks' | 'normalizeContinuations' | 'contentChecks'
+>;
+
+/** Analyzer holding a document's lines and statistics between edits */
+export interface IncrementalAnalyzer {
+  /** Apply edits in order, each relative to the document left by the previous one */
+  applyEdits: (edits: TextEdit[]) => ComplexityResultVerbose;
+  /** Result for the current document */
+  result: () => ComplexityResultVerbose;
+  /** Depth of each line (undefined for blank, comment and skipped lines) */
+  lineDepths: () => (number | undefined)[];
+  /** Current document text */
+  content: () => string;
+}
+
+interface LineState {
+  text: string;
+  /** Comment or string state at the start of the line */
+  start: ScanState;
+  end: ScanState;
+  /** Line that opened the multi-line string this line is inside */
+  opener: LineState | undefined;
+  /** Measured as code, pinned to its string's opener, skipped as a string body, or not at all */
+  kind: 'code' | 'pinned' | 'skipped' | 'none';
+  depth: number;
+}
+
+interface DocumentState {
+  lines: LineState[];
+  indentUnit: number;
+  /** Measured lines by depth */
+  histogram: Record<number, number>;
+  excludedStringLines: number;
+}
+
+interface ScanContext extends Pick<AnalyzeOptions, 'indentUnit' | 'tabWidth' | 'commentMode'> {
+  scan: ReturnType<typeof createLineScanner>;
+  multilineStrings: NonNullable<AnalyzeOptions['multilineStrings']>;
+}
+
+const INITIAL_STATE: ScanState = { block: null, string: null };
+
+function createLine(text: string): LineState {
+  return {
+    text,
+    start: INITIAL_STATE,
+    end: INITIAL_STATE,
+    opener: undefined,
+    kind: 'none',
+    depth: 0,
+  };
+}
+
+function sameState(a: ScanState, b: ScanState): boolean {
+  if (a.block !== b.block) return false;
+  if (a.string === null || b.string === null) return a.string === b.string;
+  return a.string.open === b.string.open && a.string.close === b.string.close;
+}
+
+/** Line that opened the string still open after `line`, if any */
+function openerAfter(line: LineState | undefined): LineState | undefined {
+  if (!line || line.end.string === null) return undefined;
+  return line.end.string === line.start.string ? line.opener : line;
+}
+
+/** Add (1) or remove (-1) a line's contribution to the statistics */
+function count(document: DocumentState, line: LineState, sign: 1 | -1): void {
+  if (line.kind === 'pinned' || line.kind === 'skipped') document.excludedStringLines += sign;
+  if (line.kind !== 'code' && line.kind !== 'pinned') return;
+
+  const remaining = (document.histogram[line.depth] ?? 0) + sign;
+  if (remaining === 0) delete document.histogram[line.depth];
+  else document.histogram[line.depth] = remaining;
+}
+
+function measureDepth(line: LineState, indentUnit: number, context: ScanContext): number {
+  const source = line.kind === 'pinned' ? line.opener : line;
+  return computeIndentDepth(source?.text ?? '', indentUnit, context.tabWidth);
+}
+
+/** Classify and measure a line the way parseContent does */
+function updateLine(
+  line: LineState,
+  previous: LineState | undefined,
+  indentUnit: number,
+  context: ScanContext
+): void {
+  const lineClass = context.scan(line.text, previous?.end ?? INITIAL_STATE);
+  line.start = previous?.end ?? INITIAL_STATE;
+  line.end = lineClass.end;
+  line.opener = lineClass.stringBody ? openerAfter(previous) : undefined;
+
+  if (line.text.trim().length === 0) line.kind = 'none';
+  else if (lineClass.stringBody && context.multilineStrings === 'skip') line.kind = 'skipped';
+  else if (lineClass.stringBody && context.multilineStrings === 'pin') line.kind = 'pinned';
+  else line.kind = lineClass.comment ? 'none' : 'code';
+
+  line.depth = measureDepth(line, indentUnit, context);
+}
+
+/**
+ * Rescan lines from `from`, through the edited lines and on until a line
+ * starts in the same comment and string state as before the edit.
+ */
+function rescan(
+  document: DocumentState,
+  from: number,
+  editedEnd: number,
+  context: ScanContext
+): void {
+  const { lines } = document;
+
+  for (let i = from; i < lines.length; i++) {
+    const line = lines[i];
+    const previous = lines[i - 1];
+    if (!line) break;
+
+    const start = previous?.end ?? INITIAL_STATE;
+    const settled =
+      sameState(line.start, start) &&
+      (start.string === null || line.opener === openerAfter(previous));
+    if (i >= editedEnd && settled) return;
+
+    count(document, line, -1);
+    updateLine(line, previous, document.indentUnit, context);
+    count(document, line, 1);
+  }
+}
+
+/**
+ * Read a document. The indent unit is detected from its code lines, and
+ * comment lines outside stateful mode (unless given), as in parseContent,
+ * and kept across edits.
+ */
+function createDocument(content: string, context: ScanContext): DocumentState {
+  const document: DocumentState = {
+    lines: content.split('\n').map(createLine),
+    indentUnit: 1,
+    histogram: {},
+    excludedStringLines: 0,
+  };
+  rescan(document, 0, document.lines.length, context);
+
+  const sampled = context.commentMode === 'stateful' ? ['code'] : ['code', 'none'];
+  const code = document.lines
+    .filter((line) => sampled.includes(line.kind))
+    .map((line) => line.text);
+  document.indentUnit =
+    context.indentUnit ?? detectIndentUnit(code.join('\n'), 1, context.tabWidth);
+  document.histogram = {};
+  document.excludedStringLines = 0;
+  for (const line of document.lines) {
+    line.depth = measureDepth(line, document.indentUnit, context);
+    count(document, line, 1);
+  }
+
+  return document;
+}
+
+/** Clamp a position to the document, as editors do */
+function resolvePosition(lines: LineState[], position: TextPosition): TextPosition {
+  const last = lines.length - 1;
+  if (position.line > last) return { line: last, character: lines[last]?.text.length ?? 0 };
+  return { line: Math.max(0, position.line), character: Math.max(0, position.character) };
+}
+
+function applyEdit(document: DocumentState, edit: Required<TextEdit>, context: ScanContext): void {
+  const { lines } = document;
+  const start = resolvePosition(lines, edit.range.start);
+  const end = resolvePosition(lines, edit.range.end);
+  const before = lines[start.line]?.text.slice(0, start.character) ?? '';
+  const after = lines[end.line]?.text.slice(end.character) ?? '';
+  const texts = (before + edit.text + after).split('\n');
+
+  for (const line of lines.slice(start.line, end.line + 1)) count(document, line, -1);
+  // Rebuilt rather than spliced: spreading a large paste into splice() can overflow the stack
+  document.lines = [
+    ...lines.slice(0, start.line),
+    ...texts.map(createLine),
+    ...lines.slice(end.line + 1),
+  ];
+
+  rescan(document, start.line, start.line + texts.length, context);
+}
+
+function summarize(
+  document: DocumentState,
+  percentiles: readonly number[] | undefined
+): Parameters<typeof buildSummaryResult>[0] {
+  const depthHistogram = { ...document.histogram };
+
+  return {
+    stats: computeHistogramStatistics(depthHistogram, percentiles),
+    depthHistogram,
+    lineCount: Object.values(depthHistogram).reduce((acc, n) => acc + n, 0),
+    excludedStringLines: document.excludedStringLines,
+  };
+}
+
+/**
+ * Create an analyzer that keeps a document's lines and statistics, for
+ * re-analysis on every keystroke.
+ *
+ * Edits rescan only the lines they replace, plus the lines after them
+ * whose comment or string state changed (e.g. after typing `/*`). The
+ * statistics are kept as a depth histogram, so each result costs a pass
+ * over the distinct depths rather than the lines.
+ *
+ * The indent unit is detected from the initial content and kept across
+ * range edits, so depths stay stable while typing; an edit without a
+ * range replaces the document and detects it again. The result matches
+ * analyzeComplexity as long as the unit it detects is unchanged and the
+ * document has no directives, which are not read.
+ *
+ * @example
+ * ```typescript
+ * const analyzer = createIncrementalAnalyzer(text, { filename: 'app.ts' });
+ * const result = analyzer.applyEdits([
+ *   { range: { start: { line: 4, character: 0 }, end: { line: 4, character: 0 } }, text: '  if (x) {\n' },
+ * ]);
+ * renderGutter(analyzer.lineDepths(), result.level);
+ * ```
+ */
+export function createIncrementalAnalyzer(
+  content: string,
+  options: IncrementalOptions = {}
+): IncrementalAnalyzer {
+  const profile = resolveLanguage(options.language, options.filename);
+  const parseOptions = applyLanguageProfile(options, profile);
+  const context: ScanContext = {
+    scan: createLineScanner(parseOptions),
+    multilineStrings: parseOptions.multilineStrings ?? 'include',
+    commentMode: parseOptions.commentMode,
+    indentUnit: options.indentUnit,
+    tabWidth: options.tabWidth,
+  };
+  let document = createDocument(content, context);
+
+  const result = (): ComplexityResultVerbose =>
+    buildSummaryResult(summarize(document, options.percentiles), {
+      userThresholds: options.thresholds,
+      language: profile,
+      scorer: options.scorer,
+      levels: options.levels,
+      rules: options.rules,
+    });
+
+  return {
+    applyEdits: (edits) => {
+      for (const edit of edits) {
+        if (edit.range) applyEdit(document, { range: edit.range, text: edit.text }, context);
+        else document = createDocument(edit.text, context);
+      }
+      return result();
+    },
+    result,
+    lineDepths: () =>
+      document.lines.map((line) =>
+        line.kind === 'code' || line.kind === 'pinned' ? line.depth : undefined
+      ),
+    content: () => document.lines.map((line) => line.text).join('\n'),
+  };
+}
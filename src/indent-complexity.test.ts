@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeComplexity, analyzeDiffComplexity } from './index.js';
+import {
+  analyzeComplexity,
+  analyzeDiffComplexity,
+  analyzeDiffComplexityByFile,
+  analyzeDiffDelta,
+  toSarif,
+} from './index.js';
 import { DEFAULT_COMMENT_PATTERN, DEFAULT_THRESHOLDS } from './constants.js';
 
 describe('analyzeComplexity', () => {
@@ -111,6 +117,50 @@ e`;
 
       expect(result.median).toBe(1.5);
     });
+
+    it('should compute skewness, kurtosis and entropy', () => {
+      // depths: [0, 1, 2, 1, 0], mean 0.8, variance 0.56
+      // skewness = (Σ(d - mean)³ / 5) / 0.56^1.5 = 0.144 / 0.41906...
+      // entropy = -(0.4·log2(0.4) · 2 + 0.2·log2(0.2))
+      const result = analyzeComplexity('a\n  b\n    c\n  d\ne', { verbose: true });
+
+      expect(result.skewness).toBeCloseTo(0.3436, 4);
+      expect(result.kurtosis).toBeCloseTo(0.5792 / 0.3136 - 3);
+      expect(result.entropy).toBeCloseTo(1.5219, 4);
+    });
+
+    it('should report zero shape for uniform depths', () => {
+      const result = analyzeComplexity('a\nb\nc', { verbose: true });
+
+      expect(result).toMatchObject({ skewness: 0, kurtosis: 0, entropy: 0 });
+    });
+
+    it('should interpolate p75, p90 and p95 by default', () => {
+      // sorted depths: [0, 0, 1, 1, 2]
+      const result = analyzeComplexity('a\n  b\n    c\n  d\ne', { verbose: true });
+
+      expect(result.percentiles).toEqual({
+        75: 1,
+        90: expect.closeTo(1.6),
+        95: expect.closeTo(1.8),
+      });
+    });
+
+    it('should report configured percentiles, also per block', () => {
+      const content = 'function a() {\n  if (x) {\n    run();\n  }\n}';
+      const result = analyzeComplexity(content, { blocks: true, percentiles: [0, 50, 100] });
+
+      expect(result.percentiles).toEqual({ 0: 0, 50: 1, 100: 2 });
+      expect(result.percentiles[50]).toBe(result.median);
+      expect(result.blocks[0]?.percentiles).toEqual({ 0: 0, 50: 1, 100: 2 });
+    });
+
+    it('should reject percentiles outside 0-100', () => {
+      expect(() => analyzeComplexity('a', { verbose: true, percentiles: [101] })).toThrow(
+        'Percentile must be between 0 and 100: 101'
+      );
+      expect(() => analyzeComplexity('', { verbose: true, percentiles: [-1] })).toThrow(RangeError);
+    });
   });
 
   describe('comment filtering', () => {
@@ -169,6 +219,315 @@ e`;
     });
   });
 
+  describe('stateful comment mode', () => {
+    it('should skip block comment bodies regardless of leading *', () => {
+      const content = `function foo() {
+  /*
+      if (legacy) {
+          doSomething();
+      }
+  */
+  return 1;
+}`;
+      const result = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(3);
+      expect(result.max).toBe(1);
+    });
+
+    it('should keep code that starts with *', () => {
+      const content = `void f() {
+  *ptr = x;
+}`;
+      const pattern = analyzeComplexity(content, { verbose: true });
+      const stateful = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(pattern.lineCount).toBe(2);
+      expect(stateful.lineCount).toBe(3);
+    });
+
+    it('should keep Markdown bullets', () => {
+      const content = `* item
+  * nested`;
+      const result = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should skip Python docstrings', () => {
+      const content = `def foo():
+    """
+    Explain foo.
+        Indented example.
+    """
+    return 1`;
+      const result = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should skip multi-line HTML comments', () => {
+      const content = `<div>
+  <!--
+    <span>old</span>
+  -->
+</div>`;
+      const result = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should count lines mixing code and comments as code', () => {
+      const content = `a(); /* start
+still comment
+end */ b();
+/* whole */`;
+      const result = analyzeComplexity(content, { includeLines: true, commentMode: 'stateful' });
+
+      expect(result.lines.map((l) => l.line)).toEqual([1, 3]);
+    });
+
+    it('should ignore delimiters inside strings', () => {
+      const content = `const a = "/*";
+const b = 1;`;
+      const result = analyzeComplexity(content, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should accept custom delimiters', () => {
+      const content = `x
+{-
+  y
+-}
+z`;
+      const result = analyzeComplexity(content, {
+        verbose: true,
+        commentMode: 'stateful',
+        commentSyntax: { block: [{ open: '{-', close: '-}' }] },
+      });
+
+      expect(result.lineCount).toBe(2);
+    });
+
+    it('should track block comments in diffs', () => {
+      const diff = `@@ -1,2 +1,5 @@
+ function foo() {
++  /*
++      legacy();
++  */
++  run();
+ }`;
+      const result = analyzeDiffComplexity(diff, { verbose: true, commentMode: 'stateful' });
+
+      expect(result.lineCount).toBe(1);
+    });
+
+    it('should leave comments out of the indent unit only in stateful mode', () => {
+      const content = `a
+    b
+        c
+    // x
+      // y
+        // z
+          // w
+            // v
+    d`;
+      const depths = (commentMode: 'pattern' | 'stateful') =>
+        analyzeComplexity(content, { includeLines: true, commentMode }).lines.map((l) => l.depth);
+
+      // Pattern mode samples the comments' 2-space steps, as by default
+      expect(depths('pattern')).toEqual([0, 2, 4, 2]);
+      expect(depths('stateful')).toEqual([0, 1, 2, 1]);
+
+      const diff = `@@ -0,0 +1,9 @@\n${content.replace(/^/gm, '+')}`;
+      expect(analyzeDiffComplexity(diff, { includeLines: true }).lines.map((l) => l.depth)).toEqual(
+        [0, 2, 4, 2]
+      );
+    });
+  });
+
+  describe('multi-line strings', () => {
+    const code = `function load() {
+  const sql = \`
+    SELECT *
+      FROM users
+        WHERE id = 1
+  \`;
+  return sql;
+}`;
+
+    it('should measure string bodies as code by default', () => {
+      const result = analyzeComplexity(code, { verbose: true });
+
+      expect(result.lineCount).toBe(8);
+      expect(result.max).toBe(4);
+      expect(result.excludedStringLines).toBe(0);
+    });
+
+    it('should skip string bodies', () => {
+      const result = analyzeComplexity(code, { multilineStrings: 'skip', includeLines: true });
+
+      expect(result.lineCount).toBe(4);
+      expect(result.max).toBe(1);
+      expect(result.excludedStringLines).toBe(4);
+      expect(result.lines.map((l) => l.line)).toEqual([1, 2, 7, 8]);
+    });
+
+    it('should pin string bodies to the opening line', () => {
+      const result = analyzeComplexity(code, { multilineStrings: 'pin', includeLines: true });
+
+      expect(result.lineCount).toBe(8);
+      expect(result.max).toBe(1);
+      expect(result.excludedStringLines).toBe(4);
+      expect(result.lines[2]).toMatchObject({ line: 3, depth: 1, content: 'SELECT *' });
+    });
+
+    it('should recognize triple-quoted strings and heredocs from profiles', () => {
+      const python = 'def q():\n    return """\n        SELECT 1\n            -- note\n    """\n';
+      const shell = 'run() {\n  psql <<-SQL\n        SELECT 1;\n  SQL\n  echo done\n}\n';
+
+      const py = analyzeComplexity(python, {
+        filename: 'q.py',
+        multilineStrings: 'skip',
+        verbose: true,
+      });
+      const sh = analyzeComplexity(shell, {
+        filename: 'q.sh',
+        multilineStrings: 'skip',
+        verbose: true,
+      });
+
+      expect(py.excludedStringLines).toBe(3);
+      expect(py.lineCount).toBe(2);
+      expect(sh.excludedStringLines).toBe(2);
+      expect(sh.lineCount).toBe(4);
+    });
+
+    it('should not open strings inside comments', () => {
+      const content = "// don't\nfunction f() {\n  return 1;\n}";
+      const result = analyzeComplexity(content, { multilineStrings: 'skip', verbose: true });
+
+      expect(result.excludedStringLines).toBe(0);
+      expect(result.lineCount).toBe(3);
+    });
+
+    it('should use custom string delimiters', () => {
+      const content = 'x = [[\n      text\n]]\ny = 1';
+      const result = analyzeComplexity(content, {
+        multilineStrings: 'skip',
+        stringDelimiters: [{ open: '[[', close: ']]', multiline: true }],
+        verbose: true,
+      });
+
+      expect(result.excludedStringLines).toBe(2);
+      expect(result.max).toBe(0);
+    });
+
+    it('should skip string bodies in diffs', () => {
+      const diff = `@@ -1,2 +1,5 @@
+ function load() {
++  const sql = \`
++        SELECT 1
++  \`;
+ }`;
+      const result = analyzeDiffComplexity(diff, { multilineStrings: 'skip', verbose: true });
+
+      expect(result.lineCount).toBe(1);
+      expect(result.excludedStringLines).toBe(2);
+    });
+  });
+
+  describe('continuation lines', () => {
+    const depthsOf = (content: string) =>
+      analyzeComplexity(content, { normalizeContinuations: true, includeLines: true }).lines.map(
+        (l) => l.depth
+      );
+
+    it('should keep raw depths by default', () => {
+      const content = `function f() {
+  if (ready) {
+    const x = call(a,
+                   b);
+    return x;
+  }
+}`;
+
+      expect(analyzeComplexity(content, { verbose: true }).max).toBe(9);
+      expect(analyzeComplexity(content, { normalizeContinuations: true, verbose: true }).max).toBe(
+        2
+      );
+    });
+
+    it('should flatten wrapped arguments and aligned parameters', () => {
+      const content = `function load(id) {
+  const result = fetchData(id,
+                           timeout,
+                           retries);
+  return result;
+}`;
+
+      expect(depthsOf(content)).toEqual([0, 1, 1, 1, 1, 0]);
+    });
+
+    it('should flatten chained calls and ternaries', () => {
+      const content = `const label = isActive
+  ? 'on'
+  : 'off';
+promise
+  .then(run)
+  .catch(fail);`;
+
+      expect(depthsOf(content)).toEqual([0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should follow trailing operators', () => {
+      const content = `if (ready) {
+  const ok = a &&
+      b ||
+      c;
+}`;
+
+      expect(depthsOf(content)).toEqual([0, 1, 1, 1, 0]);
+    });
+
+    it('should measure callback bodies from their statement', () => {
+      const content = `return result
+  .then((data) => {
+    if (data.ok) {
+      return data.value;
+    }
+  })
+  .catch(() => null);`;
+
+      expect(depthsOf(content)).toEqual([0, 0, 1, 2, 1, 0, 0]);
+    });
+
+    it('should keep block nesting', () => {
+      const content = `for (let i = 0; i < n; i--) {
+  if (x) {
+    run(i); // (
+  }
+}`;
+
+      expect(depthsOf(content)).toEqual([0, 1, 2, 1, 0]);
+    });
+
+    it('should normalize diff lines per side', () => {
+      const diff = `@@ -1,2 +1,4 @@
+ function f() {
++  call(a,
++       b);
+ }`;
+      const result = analyzeDiffComplexity(diff, {
+        normalizeContinuations: true,
+        includeLines: true,
+      });
+
+      expect(result.lines.map((l) => l.depth)).toEqual([1, 1]);
+    });
+  });
+
   describe('assessment', () => {
     it('should assess flat code as low complexity', () => {
       const content = `a
@@ -260,6 +619,117 @@ i`;
     });
   });
 
+  describe('blocks option', () => {
+    const content = `import { a } from 'a';
+
+function flat() {
+  return 1;
+}
+
+function deep() {
+  if (a) {
+    for (const x of a) {
+      if (x) {
+        run(x);
+      }
+    }
+  }
+}
+
+class Store {
+  get() {
+    return 1;
+  }
+  set(value) {
+    if (value) {
+      this.value = value;
+    }
+  }
+}`;
+
+    it('should not include blocks by default', () => {
+      expect('blocks' in analyzeComplexity(content, { verbose: true })).toBe(false);
+    });
+
+    it('should segment top-level blocks, worst first', () => {
+      const result = analyzeComplexity(content, { blocks: true });
+
+      expect(result.lineCount).toBe(23);
+      expect(result.blocks.map((b) => [b.header, b.startLine, b.endLine])).toEqual([
+        ['function deep() {', 7, 15],
+        ['class Store {', 17, 26],
+        ['function flat() {', 3, 5],
+      ]);
+    });
+
+    it('should compute full statistics for each block', () => {
+      const [deep] = analyzeComplexity(content, { blocks: true }).blocks;
+
+      expect(deep).toMatchObject({ lineCount: 9, max: 4, sum: 16, level: 'medium' });
+      expect(deep?.score).toBeCloseTo(44 / 9);
+      expect(deep?.median).toBe(2);
+    });
+
+    it('should segment nested blocks at the given depth', () => {
+      const { blocks } = analyzeComplexity(content, { blocks: 1 });
+
+      expect(blocks.map((b) => b.header)).toEqual(['if (a) {', 'set(value) {', 'get() {']);
+    });
+
+    it('should go on with blocks past closing lines that reopen them', () => {
+      const code = `try {
+  run();
+} catch (e) {
+  if (e) {
+    for (const x of e) {
+      if (x) {
+        log(x);
+      }
+    }
+  }
+} finally {
+  done();
+}
+if (a) {
+  one();
+} else {
+  if (b) {
+    two();
+  }
+}`;
+      const { blocks } = analyzeComplexity(code, { blocks: true });
+
+      expect(blocks.map((b) => [b.header, b.startLine, b.endLine, b.max])).toEqual([
+        ['try {', 1, 13, 4],
+        ['if (a) {', 14, 20, 2],
+      ]);
+    });
+
+    it('should end blocks without closing lines at the next header', () => {
+      const { blocks } = analyzeComplexity('def a():\n    pass\ndef b():\n    pass\nx = 1', {
+        blocks: true,
+      });
+
+      expect(blocks.map((b) => [b.startLine, b.endLine])).toEqual([
+        [1, 2],
+        [3, 4],
+      ]);
+    });
+
+    it('should assess blocks against the configured thresholds', () => {
+      const { blocks } = analyzeComplexity(content, { blocks: true, thresholds: { high: 4 } });
+
+      expect(blocks[0]?.level).toBe('high');
+    });
+
+    it('should combine with includeLines', () => {
+      const result = analyzeComplexity(content, { blocks: true, includeLines: true });
+
+      expect(result.lines).toHaveLength(23);
+      expect(result.blocks).toHaveLength(3);
+    });
+  });
+
   describe('indentation detection', () => {
     it('should handle tabs', () => {
       const content = `a
@@ -411,6 +881,126 @@ index 1234567..abcdefg 100644
     });
   });
 
+  describe('line numbers', () => {
+    const twoHunkDiff = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,4 +10,5 @@ function a() {
+ keep1
+-  removed
++  added1
++  added2
+ keep2
+@@ -40,2 +41,3 @@ function b() {
+ keep3
++    added3
+ keep4
+`;
+
+    it('should report real new-file line numbers for additions', () => {
+      const result = analyzeDiffComplexity(twoHunkDiff, { includeLines: true });
+
+      expect(result.lines.map((l) => l.line)).toEqual([11, 12, 42]);
+      expect(result.lines.every((l) => l.side === 'new')).toBe(true);
+    });
+
+    it('should report old-file line numbers for deletions', () => {
+      const result = analyzeDiffComplexity(twoHunkDiff, {
+        includeLines: true,
+        include: 'deletions',
+      });
+
+      expect(result.lines).toEqual([
+        { line: 11, depth: 1, content: 'removed', file: 'src/app.ts', side: 'old', hunk: 0 },
+      ]);
+    });
+
+    it('should record the hunk each line came from', () => {
+      const result = analyzeDiffComplexity(twoHunkDiff, { includeLines: true, include: 'both' });
+
+      expect(result.lines.map((l) => [l.side, l.line, l.hunk])).toEqual([
+        ['old', 11, 0],
+        ['new', 11, 0],
+        ['new', 12, 0],
+        ['new', 42, 1],
+      ]);
+    });
+
+    it('should skip no-newline markers without shifting positions', () => {
+      const diff = `@@ -1,1 +1,2 @@
+-a
+\\ No newline at end of file
++a
++b`;
+      const result = analyzeDiffComplexity(diff, { includeLines: true });
+
+      expect(result.lines.map((l) => l.line)).toEqual([1, 2]);
+    });
+  });
+
+  describe('context anchoring', () => {
+    const smallHunk = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -3,3 +3,4 @@ function run() {
+     if (ready) {
++        start();
+     }
+ }
+`;
+
+    it('should misdetect the indent unit from a lone changed line by default', () => {
+      const result = analyzeDiffComplexity(smallHunk, { includeLines: true });
+
+      expect(result.lines[0]?.depth).toBe(1);
+    });
+
+    it('should detect the indent unit from context lines when anchored', () => {
+      const result = analyzeDiffComplexity(smallHunk, {
+        includeLines: true,
+        anchorToContext: true,
+      });
+
+      expect(result.lines[0]?.depth).toBe(2);
+    });
+
+    it('should prefer full file contents for the indent unit', () => {
+      const newContent = `function run() {
+  if (ready) {
+    if (set) {
+      if (go) {
+        start();
+      }
+    }
+  }
+}`;
+      const result = analyzeDiffComplexity(smallHunk, {
+        includeLines: true,
+        fileContents: { 'src/app.ts': { new: newContent } },
+      });
+
+      // 2-space file: 8 spaces is depth 4
+      expect(result.lines[0]?.depth).toBe(4);
+    });
+
+    it('should anchor each side to its own file content', () => {
+      const diff = `@@ -1,2 +1,2 @@
+ a
+-    old
++    new`;
+      const result = analyzeDiffComplexity(diff, {
+        includeLines: true,
+        include: 'both',
+        fileContents: { '': { old: 'a\n    old', new: 'a\n  x\n    new' } },
+      });
+
+      expect(result.lines.map((l) => [l.side, l.depth])).toEqual([
+        ['old', 1],
+        ['new', 2],
+      ]);
+    });
+  });
+
   describe('comment filtering', () => {
     it('should skip comments in diffs', () => {
       const diff = `@@ -1,1 +1,3 @@
@@ -424,6 +1014,338 @@ index 1234567..abcdefg 100644
   });
 });
 
+describe('analyzeDiffComplexityByFile', () => {
+  const multiFileDiff = `diff --git a/src/flat.ts b/src/flat.ts
+index 1111111..2222222 100644
+--- a/src/flat.ts
++++ b/src/flat.ts
+@@ -1,1 +1,3 @@
+ const a = 1;
++const b = 2;
++const c = 3;
+diff --git a/src/deep.ts b/src/deep.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/deep.ts
+@@ -0,0 +1,5 @@
++a
++  b
++    c
++      d
++        e
+diff --git a/src/old-name.ts b/src/new-name.ts
+similarity index 90%
+rename from src/old-name.ts
+rename to src/new-name.ts
+index 4444444..5555555 100644
+--- a/src/old-name.ts
++++ b/src/new-name.ts
+@@ -1,2 +1,2 @@
+ x
+--- removed sql comment
++y
+diff --git a/src/gone.ts b/src/gone.ts
+deleted file mode 100644
+index 6666666..0000000
+--- a/src/gone.ts
++++ /dev/null
+@@ -1,1 +0,0 @@
+-gone
+diff --git a/logo.png b/logo.png
+index 7777777..8888888 100644
+Binary files a/logo.png and b/logo.png differ
+`;
+
+  it('should return one entry per file in diff order', () => {
+    const { files } = analyzeDiffComplexityByFile(multiFileDiff);
+
+    expect(files.map((f) => f.path)).toEqual([
+      'src/flat.ts',
+      'src/deep.ts',
+      'src/new-name.ts',
+      'src/gone.ts',
+      'logo.png',
+    ]);
+  });
+
+  it('should detect file status and paths', () => {
+    const { files } = analyzeDiffComplexityByFile(multiFileDiff);
+
+    expect(files.map((f) => f.status)).toEqual([
+      'modified',
+      'added',
+      'renamed',
+      'deleted',
+      'modified',
+    ]);
+    expect(files[1]).toMatchObject({ oldPath: null, newPath: 'src/deep.ts' });
+    expect(files[2]).toMatchObject({ oldPath: 'src/old-name.ts', newPath: 'src/new-name.ts' });
+    expect(files[3]).toMatchObject({ path: 'src/gone.ts', oldPath: 'src/gone.ts', newPath: null });
+  });
+
+  it('should mark binary files with a zero score', () => {
+    const { files } = analyzeDiffComplexityByFile(multiFileDiff, { verbose: true });
+    const binary = files[4];
+
+    expect(binary?.binary).toBe(true);
+    expect(binary?.result.lineCount).toBe(0);
+    expect(binary?.result.score).toBe(0);
+  });
+
+  it('should score each file independently', () => {
+    const { files } = analyzeDiffComplexityByFile(multiFileDiff, { verbose: true });
+
+    expect(files[0]?.result.lineCount).toBe(2);
+    expect(files[0]?.result.level).toBe('low');
+    expect(files[1]?.result.lineCount).toBe(5);
+    expect(files[1]?.result.max).toBe(4);
+    expect(files[1]?.result.level).toBe('medium');
+  });
+
+  it('should treat deleted lines that look like headers as content', () => {
+    const { files } = analyzeDiffComplexityByFile(multiFileDiff, {
+      verbose: true,
+      include: 'deletions',
+      commentPattern: null,
+    });
+
+    expect(files[2]?.result.lineCount).toBe(1);
+    expect(files[3]?.result.lineCount).toBe(1);
+  });
+
+  it('should aggregate all files like analyzeDiffComplexity', () => {
+    const { aggregate } = analyzeDiffComplexityByFile(multiFileDiff, { verbose: true });
+    const combined = analyzeDiffComplexity(multiFileDiff, { verbose: true });
+
+    expect(aggregate.lineCount).toBe(8);
+    expect(aggregate).toEqual(combined);
+  });
+
+  it('should treat a diff without file headers as a single file', () => {
+    const { files } = analyzeDiffComplexityByFile(`@@ -1,1 +1,2 @@
++a
++  b`);
+
+    expect(files).toHaveLength(1);
+    expect(files[0]?.path).toBe('');
+  });
+
+  it('should split plain diff -u output', () => {
+    const diff = `--- one.txt\t2024-01-01 00:00:00
++++ one.txt\t2024-01-02 00:00:00
+@@ -1 +1 @@
+-a
++b
+--- two.txt\t2024-01-01 00:00:00
++++ two.txt\t2024-01-02 00:00:00
+@@ -1 +1 @@
+-c
++d
+`;
+    const { files } = analyzeDiffComplexityByFile(diff);
+
+    expect(files.map((f) => f.path)).toEqual(['one.txt', 'two.txt']);
+    expect(files.map((f) => f.status)).toEqual(['modified', 'modified']);
+  });
+
+  it('should return no files for an empty diff', () => {
+    const { files, aggregate } = analyzeDiffComplexityByFile('');
+
+    expect(files).toEqual([]);
+    expect(aggregate.score).toBe(0);
+  });
+});
+
+describe('analyzeDiffDelta', () => {
+  const flatteningDiff = `diff --git a/src/orders.ts b/src/orders.ts
+--- a/src/orders.ts
++++ b/src/orders.ts
+@@ -1,6 +1,3 @@
+-if (a) {
+-  if (b) {
+-    if (c) {
+-      run();
+-    }
+-  }
+-}
++if (!a || !b || !c) return;
++run();
+diff --git a/src/deeper.ts b/src/deeper.ts
+--- a/src/deeper.ts
++++ b/src/deeper.ts
+@@ -1,1 +1,3 @@
+-run();
++if (a) {
++  run();
++}
+@@ -20,1 +22,1 @@
+-x();
++y();
+`;
+
+  it('should score removed and added lines independently', () => {
+    const delta = analyzeDiffDelta(flatteningDiff);
+    const removed = analyzeDiffComplexity(flatteningDiff, { verbose: true, include: 'deletions' });
+    const added = analyzeDiffComplexity(flatteningDiff, { verbose: true, include: 'additions' });
+
+    expect(delta.before).toEqual(removed);
+    expect(delta.after).toEqual(added);
+    expect(delta.scoreDelta).toBeCloseTo(added.score - removed.score);
+    expect(delta.varianceDelta).toBeCloseTo(added.variance - removed.variance);
+    expect(delta.maxDelta).toBe(added.max - removed.max);
+  });
+
+  it('should report improvements per file', () => {
+    const { files } = analyzeDiffDelta(flatteningDiff);
+    const flattened = files[0];
+
+    expect(flattened?.path).toBe('src/orders.ts');
+    expect(flattened?.before.max).toBe(3);
+    expect(flattened?.after.max).toBe(0);
+    expect(flattened?.scoreDelta).toBeLessThan(0);
+    expect(flattened?.regression).toBe(false);
+  });
+
+  it('should flag files that get deeper as regressions', () => {
+    const { files } = analyzeDiffDelta(flatteningDiff);
+
+    expect(files[1]?.path).toBe('src/deeper.ts');
+    expect(files[1]?.maxDelta).toBe(1);
+    expect(files[1]?.regression).toBe(true);
+  });
+
+  it('should break each file down by hunk', () => {
+    const { files } = analyzeDiffDelta(flatteningDiff);
+    const hunks = files[1]?.hunks ?? [];
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ hunk: 0, oldStart: 1, newStart: 1, regression: true });
+    expect(hunks[1]).toMatchObject({ hunk: 1, oldStart: 20, newStart: 22, scoreDelta: 0 });
+    expect(hunks[1]?.regression).toBe(false);
+  });
+
+  it('should include line details when requested', () => {
+    const delta = analyzeDiffDelta(flatteningDiff, { includeLines: true });
+
+    expect(delta.before.lines.every((l) => l.side === 'old')).toBe(true);
+    expect(delta.after.lines.every((l) => l.side === 'new')).toBe(true);
+  });
+
+  it('should return zero deltas for an empty diff', () => {
+    const delta = analyzeDiffDelta('');
+
+    expect(delta.files).toEqual([]);
+    expect(delta.scoreDelta).toBe(0);
+    expect(delta.regression).toBe(false);
+  });
+});
+
+describe('toSarif', () => {
+  const deepCode = `a
+  b
+    c
+      d
+        e
+          f
+            g
+            h
+          i
+            j`;
+
+  it('should produce a SARIF 2.1.0 log with one rule per level', () => {
+    const log = toSarif([]);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0]?.tool.driver.name).toBe('indent-complexity');
+    expect(log.runs[0]?.tool.driver.rules.map((r) => r.id)).toEqual([
+      'indent-complexity/low',
+      'indent-complexity/medium',
+      'indent-complexity/high',
+    ]);
+  });
+
+  it('should locate the deepest blocks of a file', () => {
+    const result = analyzeComplexity(deepCode, { includeLines: true });
+    const log = toSarif([{ path: 'src/deep.ts', result }]);
+    const sarifResult = log.runs[0]?.results[0];
+
+    expect(sarifResult?.ruleId).toBe('indent-complexity/high');
+    expect(sarifResult?.level).toBe('error');
+    expect(sarifResult?.message.text).toBe(result.reason);
+    expect(sarifResult?.locations?.[0]?.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/deep.ts' },
+      region: { startLine: 7, endLine: 8 },
+    });
+    expect(sarifResult?.relatedLocations?.[0]?.physicalLocation.region).toEqual({
+      startLine: 10,
+      endLine: 10,
+    });
+  });
+
+  it('should skip results below the minimum level', () => {
+    const result = analyzeComplexity('a\nb', { includeLines: true });
+
+    expect(toSarif([{ path: 'flat.ts', result }]).runs[0]?.results).toHaveLength(0);
+    expect(toSarif([{ path: 'flat.ts', result }], { minLevel: 'low' }).runs[0]?.results).toEqual([
+      expect.objectContaining({ ruleId: 'indent-complexity/low', level: 'note' }),
+    ]);
+  });
+
+  it('should use diff file paths and new-file line numbers', () => {
+    const diff = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -20,1 +20,5 @@
+-          removed();
++a
++  b
++    c
++      d
++        e`;
+    const { files } = analyzeDiffComplexityByFile(diff, { includeLines: true });
+    const log = toSarif(files.map((f) => ({ path: f.path, result: f.result })));
+
+    expect(log.runs[0]?.results[0]?.locations?.[0]?.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/app.ts' },
+      region: { startLine: 24, endLine: 24 },
+    });
+  });
+
+  it('should locate results at line 1 when the deepest lines were deleted', () => {
+    const diff = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,5 +1,1 @@
+-a
+-  b
+-    c
+-      d
+-        e
++a`;
+    const { files } = analyzeDiffComplexityByFile(diff, { includeLines: true, include: 'both' });
+    const log = toSarif(files.map((f) => ({ path: f.path, result: f.result })));
+
+    expect(log.runs[0]?.results[0]?.locations).toEqual([
+      {
+        physicalLocation: {
+          artifactLocation: { uri: 'src/app.ts' },
+          region: { startLine: 1, endLine: 1 },
+        },
+      },
+    ]);
+  });
+
+  it('should leave out locations for results without a path', () => {
+    const result = analyzeComplexity('a\n  b\n    c', { includeLines: true });
+    const [sarifResult] = toSarif([{ result }], { minLevel: 'low' }).runs[0]?.results ?? [];
+
+    expect(sarifResult).toBeDefined();
+    expect(sarifResult).not.toHaveProperty('locations');
+    expect(sarifResult).not.toHaveProperty('relatedLocations');
+  });
+});
+
 describe('DEFAULT_COMMENT_PATTERN', () => {
   it('should match // comments', () => {
     expect(DEFAULT_COMMENT_PATTERN.test('// comment')).toBe(true);
@@ -0,0 +1,119 @@
+/**
+ * Incremental indent unit detection, for input read line by line.
+ *
+ * Follows the detect-indent heuristic behind detectIndentUnit, so both
+ * pick the same unit: the most common change in indentation between
+ * consecutive lines wins, and lines keeping their indentation break
+ * ties. Single-space indents are ignored unless nothing else is found.
+ */
+
+/** Tabs, or spaces (captured) */
+const INDENT = /^(?:( )+|\t+)/;
+
+/** Key of an indent change: type and size, e.g. 's4' or 't1' */
+type IndentKey = string | undefined;
+
+/** Uses and tie-breaking weight of each indent change */
+interface IndentTally {
+  counts: Map<IndentKey, [uses: number, weight: number]>;
+  ignoreSingleSpaces: boolean;
+  previousSize: number;
+  previousType: string;
+  key: IndentKey;
+}
+
+/** Detects the indent unit of lines added one at a time */
+export interface IndentDetector {
+  add: (line: string) => void;
+  /** Spaces per indent level (`tabWidth`, default 1, for tabs), or
+   * `fallback` if none is found */
+  unit: (fallback?: number, tabWidth?: number) => number;
+}
+
+function createTally(ignoreSingleSpaces: boolean): IndentTally {
+  return {
+    counts: new Map(),
+    ignoreSingleSpaces,
+    previousSize: 0,
+    previousType: '',
+    key: undefined,
+  };
+}
+
+function isIgnored(tally: IndentTally, type: string, size: number): boolean {
+  return tally.ignoreSingleSpaces && type === 's' && size === 1;
+}
+
+function tallyLine(tally: IndentTally, line: string): void {
+  if (!line) return;
+
+  const match = INDENT.exec(line);
+  if (match === null) {
+    tally.previousSize = 0;
+    tally.previousType = '';
+    return;
+  }
+
+  const size = match[0].length;
+  const type = match[1] ? 's' : 't';
+  if (isIgnored(tally, type, size)) return;
+
+  if (type !== tally.previousType) tally.previousSize = 0;
+  tally.previousType = type;
+  const difference = size - tally.previousSize;
+  tally.previousSize = size;
+
+  if (difference !== 0) {
+    if (isIgnored(tally, type, Math.abs(difference))) return;
+    tally.key = `${type}${Math.abs(difference)}`;
+  }
+
+  // A line keeping its indentation is not a new use, but weighs in on ties
+  const entry = tally.counts.get(tally.key);
+  const [uses, weight] = difference === 0 ? [0, 1] : [1, 0];
+  tally.counts.set(tally.key, entry === undefined ? [1, 0] : [entry[0] + uses, entry[1] + weight]);
+}
+
+function mostUsedKey(tally: IndentTally): IndentKey {
+  let result: IndentKey;
+  let maxUses = 0;
+  let maxWeight = 0;
+
+  for (const [key, [uses, weight]] of tally.counts) {
+    if (uses > maxUses || (uses === maxUses && weight > maxWeight)) {
+      maxUses = uses;
+      maxWeight = weight;
+      result = key;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create an indent detector.
+ *
+ * @example
+ * ```typescript
+ * const detector = createIndentDetector();
+ * for (const line of lines) detector.add(line);
+ * detector.unit(); // same as detectIndentUnit(lines.join('\n'))
+ * ```
+ */
+export function createIndentDetector(): IndentDetector {
+  const strict = createTally(true);
+  const loose = createTally(false);
+
+  return {
+    add: (line) => {
+      tallyLine(strict, line);
+      tallyLine(loose, line);
+    },
+    unit: (fallback = 1, tabWidth = 1) => {
+      const key = mostUsedKey(strict.counts.size > 0 ? strict : loose);
+      if (key === undefined) return fallback;
+      if (key.startsWith('t')) return tabWidth;
+      return Number(key.slice(1)) || fallback;
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import {
+  analyzeComplexity,
+  analyzeComplexityStream,
+  analyzeDiffComplexity,
+  analyzeIndentation,
+  createIncrementalAnalyzer,
+} from './index.js';
+
+describe('analyzeIndentation', () => {
+  it('should report a clean file with full confidence', () => {
+    const report = analyzeIndentation('a {\n  b {\n    c\n  }\n}');
+
+    expect(report).toEqual({
+      indentUnit: 2,
+      unitSource: 'detected',
+      indentStyle: 'spaces',
+      confidence: 1,
+      mixedLines: [],
+      misalignedLines: [],
+      regions: [],
+    });
+  });
+
+  it('should report no indentation for flat code', () => {
+    expect(analyzeIndentation('a\nb\nc')).toMatchObject({ indentStyle: 'none', confidence: 1 });
+  });
+
+  it('should report lines mixing tabs and spaces', () => {
+    const report = analyzeIndentation('a\n\tb\n\tc\n\t  d\n  e', { tabWidth: 2 });
+
+    expect(report.indentStyle).toBe('tabs');
+    expect(report.mixedLines).toEqual([
+      { line: 4, width: 4, depth: 2 },
+      { line: 5, width: 2, depth: 1 },
+    ]);
+    expect(report.confidence).toBeCloseTo(2 / 4);
+  });
+
+  it('should report lines between indent levels', () => {
+    const content = ['a {', '    b {', '        c', '          d', '    }', '   e', '}'].join('\n');
+    const report = analyzeIndentation(content);
+
+    expect(report.indentUnit).toBe(4);
+    expect(report.misalignedLines).toEqual([
+      { line: 4, width: 10, depth: 2 },
+      { line: 6, width: 3, depth: 0 },
+    ]);
+    expect(report.confidence).toBeCloseTo(3 / 5);
+  });
+
+  it('should report regions indenting by another step', () => {
+    const twoSpace = ['a {', '  b {', '    c', '  }', '}'];
+    const fourSpace = ['d {', '    e {', '        f', '    }', '}'];
+    const report = analyzeIndentation([...twoSpace, ...fourSpace, ...twoSpace].join('\n'));
+
+    expect(report.indentUnit).toBe(2);
+    expect(report.regions).toEqual([{ startLine: 7, endLine: 11, step: 4 }]);
+  });
+
+  it('should leave comments and multi-line string bodies out', () => {
+    const content = ['a {', '  /*', '     * note', '     */', '  s = `', '   text', '`', '}'];
+
+    expect(analyzeIndentation(content.join('\n'), { language: 'typescript' })).toMatchObject({
+      misalignedLines: [],
+      confidence: 1,
+    });
+  });
+
+  it('should measure with the indent unit given', () => {
+    const report = analyzeIndentation('a\n  b\n    c', { indentUnit: 4 });
+
+    expect(report).toMatchObject({ indentUnit: 4, unitSource: 'option' });
+    expect(report.misalignedLines).toEqual([{ line: 2, width: 2, depth: 0 }]);
+  });
+});
+
+describe('indentUnit and tabWidth options', () => {
+  const content = 'a\n    b\n        c\n    d';
+
+  it('should override the detected indent unit', () => {
+    expect(analyzeComplexity(content, { includeLines: true }).lines.map((l) => l.depth)).toEqual([
+      0, 1, 2, 1,
+    ]);
+    expect(
+      analyzeComplexity(content, { includeLines: true, indentUnit: 2 }).lines.map((l) => l.depth)
+    ).toEqual([0, 2, 4, 2]);
+  });
+
+  it('should expand tabs to the tab width', () => {
+    const tabbed = 'a\n\tb\n\t\tc\n    d';
+    const depths = (tabWidth?: number) =>
+      analyzeComplexity(tabbed, { includeLines: true, indentUnit: 4, tabWidth }).lines.map(
+        (l) => l.depth
+      );
+
+    expect(depths()).toEqual([0, 1, 2, 1]);
+    expect(depths(8)).toEqual([0, 2, 4, 1]);
+  });
+
+  it('should apply the overrides in every analysis', async () => {
+    const options = { indentUnit: 2, tabWidth: 4 };
+    const expected = analyzeComplexity(content, options).score;
+    const diff = [
+      '--- a/x.txt',
+      '+++ b/x.txt',
+      '@@ -0,0 +1,4 @@',
+      ...content.split('\n').map((l) => `+${l}`),
+    ].join('\n');
+
+    expect(analyzeDiffComplexity(diff, options).score).toBe(expected);
+    expect((await analyzeComplexityStream(Readable.from([content]), options)).score).toBe(expected);
+    expect(createIncrementalAnalyzer(content, options).result().score).toBe(expected);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Indentation hygiene: how reliably depths can be measured from a file's
+ * indentation, and the lines and regions that make them misleading.
+ */
+
+import type { AnalyzeOptions } from './types.js';
+import { indentWidth } from './parser.js';
+import { parseSource } from './source.js';
+
+/** Options for analyzeIndentation */
+export type IndentationOptions = Pick<
+  AnalyzeOptions,
+  | 'commentPattern'
+  | 'commentMode'
+  | 'commentSyntax'
+  | 'language'
+  | 'filename'
+  | 'stringDelimiters'
+  | 'indentUnit'
+  | 'tabWidth'
+>;
+
+/** A code line with suspect indentation */
+export interface IndentationIssue {
+  /** 1-indexed line number */
+  line: number;
+  /** Width of the indentation in columns, tabs expanded */
+  width: number;
+  /** Depth the line is measured at */
+  depth: number;
+}
+
+/** Lines that indent by a different step than the indent unit */
+export interface IndentationRegion {
+  startLine: number;
+  endLine: number;
+  /** Columns per indent level in the region */
+  step: number;
+}
+
+/** Indentation hygiene of a file (from analyzeIndentation) */
+export interface IndentationReport {
+  /** Spaces per indent level that depths are measured in */
+  indentUnit: number;
+  /** Whether the unit was detected or given as `indentUnit` */
+  unitSource: 'detected' | 'option';
+  /** Character that most indented code lines use, 'none' without indentation */
+  indentStyle: 'spaces' | 'tabs' | 'none';
+  /** Share of indented code lines that are neither mixed nor misaligned,
+   * from 0 to 1 (1 without indentation) */
+  confidence: number;
+  /** Lines indenting with both tabs and spaces, or against `indentStyle` */
+  mixedLines: IndentationIssue[];
+  /** Lines whose indentation is not a whole number of levels. Their depth
+   * is rounded down. */
+  misalignedLines: IndentationIssue[];
+  /** Regions where another indent step dominates, e.g. 4 spaces in a
+   * 2-space file */
+  regions: IndentationRegion[];
+}
+
+interface CodeLine {
+  line: number;
+  indent: string;
+  width: number;
+}
+
+/** Steps in a row needed to report a region */
+const MIN_REGION_STEPS = 2;
+
+function dominantStyle(lines: CodeLine[]): IndentationReport['indentStyle'] {
+  const tabs = lines.filter((l) => l.indent.startsWith('\t')).length;
+  const spaces = lines.filter((l) => l.indent.startsWith(' ')).length;
+  if (tabs + spaces === 0) return 'none';
+  return tabs > spaces ? 'tabs' : 'spaces';
+}
+
+function isMixed(indent: string, style: IndentationReport['indentStyle']): boolean {
+  const other = style === 'tabs' ? ' ' : '\t';
+  return indent.includes(other);
+}
+
+/**
+ * Find runs of indent steps of one size other than the unit. A step is the
+ * width added from one code line to the next; a run lasts until a step of
+ * another size.
+ */
+function findRegions(lines: CodeLine[], indentUnit: number): IndentationRegion[] {
+  const regions: IndentationRegion[] = [];
+  let run: (IndentationRegion & { steps: number }) | undefined;
+  const close = (): void => {
+    if (run && run.step !== indentUnit && run.steps >= MIN_REGION_STEPS) {
+      regions.push({ startLine: run.startLine, endLine: run.endLine, step: run.step });
+    }
+  };
+
+  lines.forEach((l, i) => {
+    const step = l.width - (lines[i - 1]?.width ?? 0);
+    if (i > 0 && step > 0 && step !== run?.step) {
+      close();
+      run = { startLine: l.line, endLine: l.line, step, steps: 1 };
+      return;
+    }
+    if (!run) return;
+    if (step > 0) run.steps++;
+    run.endLine = l.line;
+  });
+  close();
+  return regions;
+}
+
+/**
+ * Check the indentation of source code: the indent unit depths are
+ * measured in, lines mixing tabs and spaces, lines between indent levels,
+ * and regions indenting by another step.
+ *
+ * Only code lines are checked; comments and multi-line string bodies are
+ * left out, as they are from the analysis. Pass `indentUnit` or `tabWidth`
+ * to the analysis when the report shows detection got them wrong.
+ *
+ * @example
+ * ```typescript
+ * const report = analyzeIndentation(code, { filename: 'app.ts' });
+ * if (report.confidence < 0.9) {
+ *   console.warn(`indent unit ${report.indentUnit}: ${report.misalignedLines.length} misaligned lines`);
+ * }
+ * ```
+ */
+export function analyzeIndentation(
+  content: string,
+  options: IndentationOptions = {}
+): IndentationReport {
+  const { lines: parsed, indentUnit } = parseSource(content, {
+    ...options,
+    multilineStrings: 'skip',
+    contentChecks: false,
+  });
+  const rawLines = content.split('\n');
+  const tabWidth = options.tabWidth ?? indentUnit;
+
+  const code: CodeLine[] = parsed
+    .filter((l) => l.stringBody === undefined)
+    .map((l) => {
+      const text = rawLines[l.lineNumber - 1] ?? '';
+      const indent = /^[\t ]*/.exec(text)?.[0] ?? '';
+      return { line: l.lineNumber, indent, width: indentWidth(text, tabWidth) };
+    });
+  const indented = code.filter((l) => l.width > 0);
+  const indentStyle = dominantStyle(indented);
+  const toIssue = (l: CodeLine): IndentationIssue => ({
+    line: l.line,
+    width: l.width,
+    depth: Math.floor(l.width / indentUnit),
+  });
+
+  const mixed = indented.filter((l) => isMixed(l.indent, indentStyle));
+  const misaligned = indented.filter((l) => l.width % indentUnit !== 0);
+  const suspect = new Set([...mixed, ...misaligned]);
+
+  return {
+    indentUnit,
+    unitSource: options.indentUnit === undefined ? 'detected' : 'option',
+    indentStyle,
+    confidence: indented.length === 0 ? 1 : 1 - suspect.size / indented.length,
+    mixedLines: mixed.map(toIssue),
+    misalignedLines: misaligned.map(toIssue),
+    regions: findRegions(code, indentUnit),
+  };
+}
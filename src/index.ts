@@ -10,16 +10,114 @@
 
 // Main analysis functions
 export { analyzeComplexity } from './analyze.js';
-export { analyzeDiffComplexity } from './analyze-diff.js';
+export { analyzeDiffComplexity, analyzeDiffComplexityByFile } from './analyze-diff.js';
+export { analyzeDiffDelta } from './analyze-delta.js';
+export { analyzeComplexityStream } from './analyze-stream.js';
+export { analyzeDiffComplexityStream } from './analyze-diff-stream.js';
+export { createIncrementalAnalyzer } from './incremental.js';
+export { findHotspots } from './hotspots.js';
+export { analyzeIndentation } from './indentation.js';
+export { analyzeHistory, formatHistoryCsv } from './history.js';
+export { analyzeProject } from './project.js';
+export { createLspServer } from './lsp-server.js';
+export { runLspServer } from './lsp-stdio.js';
+export type { StreamOptions } from './analyze-stream.js';
+export type { DiffStreamOptions } from './analyze-diff-stream.js';
+export type { StreamSource } from './line-reader.js';
+export type {
+  IncrementalAnalyzer,
+  IncrementalOptions,
+  TextEdit,
+  TextPosition,
+} from './incremental.js';
+export type { Hotspot, HotspotOptions } from './hotspots.js';
+export type {
+  IndentationIssue,
+  IndentationOptions,
+  IndentationRegion,
+  IndentationReport,
+} from './indentation.js';
+export type { HistoryOptions, HistoryPoint } from './history.js';
+export type {
+  ProjectOptions,
+  ProjectResult,
+  ProjectFileResult,
+  ProjectSummary,
+} from './project.js';
+export type {
+  ProjectAnalyzeOptions,
+  ProjectFilesOptions,
+  ProjectOverride,
+} from './project-files.js';
+export type { JsonRpcMessage, LspServer, LspSettings } from './lsp-server.js';
+
+// Language profiles
+export { registerLanguage, getLanguage, listLanguages, detectLanguage } from './languages.js';
+
+// Assessment
+export { assessComplexity, levelsFromThresholds, DEFAULT_LEVELS } from './assessment.js';
+export type { AssessmentOptions, LevelDefinition, LevelScale } from './assessment.js';
+export type { AssessmentRule, RuleMetric } from './rules.js';
+
+// Scorers
+export { registerScorer, getScorer, listScorers, DEFAULT_SCORER } from './scorers.js';
+export type { Scorer, ScorerInput } from './scorers.js';
+
+// Content checks
+export { checkContent, DEFAULT_MAX_LINE_LENGTH } from './content-checks.js';
+export type { ContentCheck, ContentCheckOptions, ContentCheckResult } from './content-checks.js';
+
+// Baselines
+export { createBaseline, compareBaseline, tightenBaseline, parseBaseline } from './baseline.js';
+export type {
+  Baseline,
+  BaselineComparison,
+  BaselineEntry,
+  BaselineFile,
+  BaselineRegression,
+  BaselineScore,
+  BaselineTolerance,
+} from './baseline.js';
+
+// Output formats
+export { toSarif, sarifRuleId } from './sarif.js';
+export type { SarifEntry, SarifOptions, SarifLog, SarifResult, SarifLevel } from './sarif.js';
+
+// Defaults
+export {
+  DEFAULT_COMMENT_PATTERN,
+  DEFAULT_COMMENT_SYNTAX,
+  DEFAULT_STRING_DELIMITERS,
+  DEFAULT_THRESHOLDS,
+} from './constants.js';
 
 // Types
+export type { DistributionShape } from './statistics.js';
 export type {
   ComplexityLevel,
   ComplexityResult,
   ComplexityResultVerbose,
   ComplexityResultWithLines,
+  ComplexityResultWithBlocks,
+  BlockComplexity,
   LineDetail,
+  DiffSide,
   Thresholds,
+  CommentSyntax,
+  BlockCommentDelimiter,
+  StringDelimiter,
+  LanguageProfile,
   AnalyzeOptions,
   DiffOptions,
+  DiffFileContents,
+  DiffFileStatus,
+  FileComplexityResult,
+  DiffComplexityByFile,
 } from './types.js';
+export type {
+  DeltaOptions,
+  ComplexityDelta,
+  HunkComplexityDelta,
+  FileComplexityDelta,
+  DiffComplexityDelta,
+} from './analyze-delta.js';
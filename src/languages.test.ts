@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeComplexity,
+  analyzeDiffComplexity,
+  analyzeDiffComplexityByFile,
+  detectLanguage,
+  registerLanguage,
+} from './index.js';
+
+describe('language profiles', () => {
+  const nested = 'a\n  b\n    c\n      d\n';
+
+  it('should select a profile from the file name', () => {
+    const result = analyzeComplexity(nested, { filename: 'src/app.py', verbose: true });
+
+    expect(result.language).toBe('python');
+    expect(detectLanguage('lib/Main.JAVA')?.id).toBe('java');
+    expect(detectLanguage('README')).toBeUndefined();
+  });
+
+  it('should not report a language without a profile', () => {
+    expect(analyzeComplexity(nested, { verbose: true })).not.toHaveProperty('language');
+    expect(analyzeComplexity(nested, { filename: 'notes.txt', verbose: true })).not.toHaveProperty(
+      'language'
+    );
+  });
+
+  it('should prefer an explicit language over the file name', () => {
+    const result = analyzeComplexity(nested, {
+      language: 'yaml',
+      filename: 'app.py',
+      verbose: true,
+    });
+
+    expect(result.language).toBe('yaml');
+  });
+
+  it('should throw for an unknown language', () => {
+    expect(() => analyzeComplexity(nested, { language: 'klingon' })).toThrow(
+      'Unknown language: klingon'
+    );
+  });
+
+  it('should use the profile comment syntax', () => {
+    const content = 'function f() {\n  --count;\n  return "/*";\n}\nconst x = 1;';
+
+    expect(analyzeComplexity(content, { verbose: true }).lineCount).toBe(4);
+    expect(analyzeComplexity(content, { filename: 'f.ts', verbose: true }).lineCount).toBe(5);
+  });
+
+  it('should apply profile thresholds under user thresholds', () => {
+    // score = (0 + 1 + 4 + 9 + 9) / 5 = 4.6
+    const content = 'a\n  b\n    c\n      d\n      e\n';
+
+    expect(analyzeComplexity(content).level).toBe('medium');
+    expect(analyzeComplexity(content, { filename: 'config.yml' }).level).toBe('low');
+    expect(
+      analyzeComplexity(content, { filename: 'config.yml', thresholds: { medium: 3 } }).level
+    ).toBe('medium');
+  });
+
+  it('should register custom profiles', () => {
+    registerLanguage({
+      id: 'indentlang',
+      extensions: ['.idl8'],
+      comments: { line: [';'], block: [] },
+      strings: [],
+      thresholds: { high: 1 },
+    });
+    const result = analyzeComplexity('a\n  ; note\n  b\n    c\n', {
+      filename: 'x.idl8',
+      verbose: true,
+    });
+
+    expect(result.language).toBe('indentlang');
+    expect(result.lineCount).toBe(3);
+    expect(result.level).toBe('high');
+  });
+
+  it('should select a profile per diff file with language auto', () => {
+    const diff = `diff --git a/app.ts b/app.ts
+--- a/app.ts
++++ b/app.ts
+@@ -1,1 +1,2 @@
+ x
++--count;
+diff --git a/config.yml b/config.yml
+--- a/config.yml
++++ b/config.yml
+@@ -1,1 +1,2 @@
+ a:
++  b: 1
+`;
+    const byFile = analyzeDiffComplexityByFile(diff, { language: 'auto', verbose: true });
+
+    expect(byFile.files.map((f) => f.result.language)).toEqual(['typescript', 'yaml']);
+    expect(byFile.files[0]?.result.lineCount).toBe(1);
+    expect(byFile.aggregate).not.toHaveProperty('language');
+    expect(analyzeDiffComplexity(diff, { verbose: true })).not.toHaveProperty('language');
+    expect(analyzeDiffComplexity(diff, { language: 'yaml', verbose: true }).language).toBe('yaml');
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Language profiles: comment syntax, string delimiters and thresholds
+ * selected by language id or file name.
+ */
+
+import type { AnalyzeOptions, CommentSyntax, LanguageProfile, StringDelimiter } from './types.js';
+import type { CommentOptions } from './comments.js';
+
+const C_COMMENTS: CommentSyntax = {
+  line: ['//'],
+  block: [{ open: '/*', close: '*/' }],
+};
+
+const HASH_COMMENTS: CommentSyntax = { line: ['#'], block: [] };
+
+const MARKUP_COMMENTS: CommentSyntax = { line: [], block: [{ open: '<!--', close: '-->' }] };
+
+const DOUBLE_QUOTE: StringDelimiter = { open: '"', close: '"' };
+const SINGLE_QUOTE: StringDelimiter = { open: "'", close: "'" };
+const BACKTICK: StringDelimiter = { open: '`', close: '`', multiline: true };
+const TRIPLE_DOUBLE_QUOTE: StringDelimiter = { open: '"""', close: '"""', multiline: true };
+const TRIPLE_SINGLE_QUOTE: StringDelimiter = { open: "'''", close: "'''", multiline: true };
+const HEREDOC: StringDelimiter = { open: '<<', close: '', heredoc: true };
+
+/** Class and namespace bodies add a level of nesting to every method */
+const CLASS_BODY_THRESHOLDS = { medium: 5, high: 12 };
+
+/** Data and markup files nest deeply by nature */
+const DATA_THRESHOLDS = { medium: 6, high: 14 };
+const MARKUP_THRESHOLDS = { medium: 9, high: 20 };
+
+const BUILTIN_LANGUAGES: LanguageProfile[] = [
+  {
+    id: 'javascript',
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE, BACKTICK],
+  },
+  {
+    id: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE, BACKTICK],
+  },
+  {
+    id: 'python',
+    extensions: ['.py', '.pyi'],
+    comments: {
+      line: ['#'],
+      block: [
+        { open: '"""', close: '"""', lineStart: true },
+        { open: "'''", close: "'''", lineStart: true },
+      ],
+    },
+    strings: [TRIPLE_DOUBLE_QUOTE, TRIPLE_SINGLE_QUOTE, DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'ruby',
+    extensions: ['.rb'],
+    filenames: ['Rakefile', 'Gemfile'],
+    comments: { line: ['#'], block: [{ open: '=begin', close: '=end', lineStart: true }] },
+    strings: [HEREDOC, DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'shell',
+    extensions: ['.sh', '.bash', '.zsh'],
+    comments: HASH_COMMENTS,
+    strings: [HEREDOC, DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'java',
+    extensions: ['.java'],
+    comments: C_COMMENTS,
+    strings: [TRIPLE_DOUBLE_QUOTE, DOUBLE_QUOTE, SINGLE_QUOTE],
+    thresholds: CLASS_BODY_THRESHOLDS,
+  },
+  {
+    id: 'kotlin',
+    extensions: ['.kt', '.kts'],
+    comments: C_COMMENTS,
+    strings: [TRIPLE_DOUBLE_QUOTE, DOUBLE_QUOTE, SINGLE_QUOTE],
+    thresholds: CLASS_BODY_THRESHOLDS,
+  },
+  {
+    id: 'csharp',
+    extensions: ['.cs'],
+    comments: C_COMMENTS,
+    strings: [
+      TRIPLE_DOUBLE_QUOTE,
+      { open: '@"', close: '"', multiline: true },
+      DOUBLE_QUOTE,
+      SINGLE_QUOTE,
+    ],
+    thresholds: CLASS_BODY_THRESHOLDS,
+  },
+  {
+    id: 'c',
+    extensions: ['.c', '.h'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'cpp',
+    extensions: ['.cc', '.cpp', '.cxx', '.hh', '.hpp'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'go',
+    extensions: ['.go'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE, BACKTICK],
+  },
+  {
+    id: 'rust',
+    extensions: ['.rs'],
+    comments: C_COMMENTS,
+    // Single quotes also mark lifetimes, so only double quotes delimit strings
+    strings: [DOUBLE_QUOTE],
+  },
+  {
+    id: 'php',
+    extensions: ['.php'],
+    comments: { ...C_COMMENTS, line: ['//', '#'] },
+    strings: [{ ...HEREDOC, open: '<<<' }, DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'css',
+    extensions: ['.css'],
+    comments: { ...C_COMMENTS, line: [] },
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'scss',
+    extensions: ['.scss', '.less'],
+    comments: C_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'sql',
+    extensions: ['.sql'],
+    comments: { ...C_COMMENTS, line: ['--'] },
+    strings: [SINGLE_QUOTE, DOUBLE_QUOTE],
+  },
+  {
+    id: 'lua',
+    extensions: ['.lua'],
+    comments: { line: ['--'], block: [{ open: '--[[', close: ']]' }] },
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  },
+  {
+    id: 'haskell',
+    extensions: ['.hs'],
+    comments: { line: ['--'], block: [{ open: '{-', close: '-}' }] },
+    strings: [DOUBLE_QUOTE],
+  },
+  {
+    id: 'yaml',
+    extensions: ['.yml', '.yaml'],
+    comments: HASH_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+    thresholds: DATA_THRESHOLDS,
+  },
+  {
+    id: 'json',
+    extensions: ['.json'],
+    comments: { line: [], block: [] },
+    strings: [DOUBLE_QUOTE],
+    thresholds: DATA_THRESHOLDS,
+  },
+  {
+    id: 'html',
+    extensions: ['.html', '.htm', '.vue', '.svelte'],
+    comments: MARKUP_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+    thresholds: MARKUP_THRESHOLDS,
+  },
+  {
+    id: 'xml',
+    extensions: ['.xml', '.svg', '.xsd', '.xsl'],
+    comments: MARKUP_COMMENTS,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+    thresholds: MARKUP_THRESHOLDS,
+  },
+];
+
+/** Registered profiles by id, in registration order */
+const registry = new Map<string, LanguageProfile>(
+  BUILTIN_LANGUAGES.map((profile) => [profile.id, profile])
+);
+
+/**
+ * Register a language profile, or replace the profile with the same id.
+ *
+ * Profiles registered later take precedence when several claim the same
+ * extension or file name.
+ *
+ * @example
+ * ```typescript
+ * registerLanguage({
+ *   id: 'elixir',
+ *   extensions: ['.ex', '.exs'],
+ *   comments: { line: ['#'], block: [] },
+ *   strings: [{ open: '"', close: '"' }],
+ * });
+ * analyzeComplexity(code, { filename: 'lib/app.ex' });
+ * ```
+ */
+export function registerLanguage(profile: LanguageProfile): void {
+  registry.delete(profile.id);
+  registry.set(profile.id, profile);
+}
+
+/**
+ * Whether profiles other than the built-in ones are registered. Worker
+ * threads start with the built-in profiles only.
+ */
+export function hasRegisteredLanguages(): boolean {
+  return (
+    registry.size !== BUILTIN_LANGUAGES.length ||
+    BUILTIN_LANGUAGES.some((profile) => registry.get(profile.id) !== profile)
+  );
+}
+
+/**
+ * Look up a registered language profile by id.
+ */
+export function getLanguage(id: string): LanguageProfile | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List all registered language profiles.
+ */
+export function listLanguages(): LanguageProfile[] {
+  return [...registry.values()];
+}
+
+/**
+ * Select a language profile from a file name or path.
+ *
+ * Exact file names are matched first, then extensions (case-insensitive).
+ *
+ * @param filename - File name or path
+ * @returns The matching profile, or undefined if none claims the file
+ */
+export function detectLanguage(filename: string): LanguageProfile | undefined {
+  const name = filename.split(/[\\/]/).pop() ?? '';
+  const lowerName = name.toLowerCase();
+  const profiles = listLanguages().reverse();
+
+  return (
+    profiles.find((profile) => profile.filenames?.includes(name)) ??
+    profiles.find((profile) => profile.extensions.some((ext) => lowerName.endsWith(ext)))
+  );
+}
+
+/**
+ * Resolve the `language` option to a profile.
+ *
+ * @param language - Profile id, 'auto', or undefined (auto when a file name is given)
+ * @param filename - File name used for auto-detection
+ * @returns The selected profile, or undefined when none applies
+ * @throws Error if the id is not registered
+ */
+export function resolveLanguage(
+  language: string | undefined,
+  filename: string | undefined
+): LanguageProfile | undefined {
+  if (language === undefined || language === 'auto') {
+    return filename === undefined ? undefined : detectLanguage(filename);
+  }
+
+  const profile = registry.get(language);
+  if (!profile) throw new Error(`Unknown language: ${language}`);
+  return profile;
+}
+
+/**
+ * Apply a profile's comment and string syntax to analysis options.
+ *
+ * A profile switches comment detection to the stateful mode with its own
+ * syntax, unless the caller passes a `commentPattern` or `commentMode` of
+ * their own.
+ */
+export function applyLanguageProfile<T extends AnalyzeOptions<string>>(
+  options: T,
+  profile: LanguageProfile | undefined
+): T & CommentOptions {
+  if (!profile) return options;
+
+  return {
+    ...options,
+    commentMode: options.commentMode ?? (options.commentPattern ? 'pattern' : 'stateful'),
+    commentSyntax: { ...profile.comments, ...options.commentSyntax },
+    stringDelimiters: options.stringDelimiters ?? profile.strings,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeComplexity,
+  analyzeDiffComplexity,
+  assessComplexity,
+  DEFAULT_LEVELS,
+  DEFAULT_THRESHOLDS,
+  toSarif,
+} from './index.js';
+import { reachesLevel } from './report.js';
+
+describe('complexity levels', () => {
+  const levels = [
+    { name: 'ok' },
+    { name: 'watch', threshold: 2 },
+    { name: 'refactor', threshold: 5, message: 'Score {score}: plan a refactoring' },
+    { name: 'blocker', threshold: 9 },
+  ] as const;
+  const deep = 'a\n  b\n    c\n      d\n        e\n          f\n            g';
+
+  it('should assess on the named levels, typed by their names', () => {
+    const result = analyzeComplexity(deep, { levels });
+    const level: 'ok' | 'watch' | 'refactor' | 'blocker' = result.level;
+
+    expect(level).toBe('blocker');
+    expect(result.reason).toBe('Score 13.0 exceeds blocker threshold (9)');
+    expect(analyzeComplexity('a\nb', { levels })).toMatchObject({
+      level: 'ok',
+      reason: 'Score indicates simple, low-nesting code',
+    });
+  });
+
+  it('should fill in custom messages', () => {
+    // Depths 0, 1, 2, 3: score 3.5
+    expect(analyzeComplexity('a\n  b\n    c\n      d', { levels }).level).toBe('watch');
+    // Depths 0 to 4: score 6
+    expect(analyzeComplexity('a\n  b\n    c\n      d\n        e', { levels }).reason).toBe(
+      'Score 6.0: plan a refactoring'
+    );
+  });
+
+  it('should replace the thresholds, and assess blocks on the same levels', () => {
+    const content = 'function a() {\n  if (x) {\n    if (y) {\n      run();\n    }\n  }\n}\nb();';
+    const result = analyzeComplexity(content, {
+      levels,
+      thresholds: { medium: 0.1, high: 0.2 },
+      blocks: true,
+    });
+
+    expect(result.level).toBe('watch');
+    expect(result.blocks[0]?.level).toBe('watch');
+  });
+
+  it('should apply levels with the default names to diffs', () => {
+    const diff = '--- a/x\n+++ b/x\n@@ -0,0 +1,2 @@\n+a\n+  b\n';
+    const result = analyzeDiffComplexity(diff, {
+      levels: [{ name: 'low' }, { name: 'high', threshold: 0.5, message: 'Too deep' }],
+    });
+
+    expect(result).toMatchObject({ level: 'high', reason: 'Too deep' });
+  });
+
+  it('should assess a score on thresholds or levels with assessComplexity', () => {
+    expect(assessComplexity(4, DEFAULT_THRESHOLDS)).toEqual({
+      level: 'medium',
+      reason: 'Score 4.0 exceeds medium threshold (4)',
+    });
+    expect(assessComplexity(4, DEFAULT_LEVELS)).toEqual(assessComplexity(4, DEFAULT_THRESHOLDS));
+    expect(assessComplexity(4, [{ name: 'fine' }]).level).toBe('fine');
+  });
+
+  it('should map custom levels to SARIF levels by their place on the scale', () => {
+    const entries = [deep, 'a\n  b\n    c\n      d', 'a\nb'].map((content, i) => ({
+      path: `${i}.ts`,
+      result: analyzeComplexity(content, { levels, includeLines: true }),
+    }));
+    const [run] = toSarif(entries, { levels }).runs;
+
+    expect(run?.results.map((r) => [r.ruleId, r.level])).toEqual([
+      ['indent-complexity/blocker', 'error'],
+      ['indent-complexity/watch', 'warning'],
+    ]);
+    expect(run?.tool.driver.rules.map((r) => r.defaultConfiguration.level)).toEqual([
+      'note',
+      'warning',
+      'warning',
+      'error',
+    ]);
+  });
+
+  it('should check whether results reach a level of a custom scale', () => {
+    const report = (content: string) => ({
+      files: [{ path: 'a.ts', result: analyzeComplexity(content, { levels }) }],
+    });
+
+    expect(reachesLevel(report(deep), 'blocker', levels)).toBe(true);
+    expect(reachesLevel(report('a\n  b\n    c\n      d'), 'refactor', levels)).toBe(false);
+    // Default levels apply by where the custom ones fall on their scale
+    expect(reachesLevel(report(deep), 'high', levels)).toBe(true);
+    expect(reachesLevel(report('a\n  b\n    c\n      d'), 'high', levels)).toBe(false);
+    expect(reachesLevel(report('a\n  b\n    c\n      d'), 'medium', levels)).toBe(true);
+  });
+
+  it('should reject scales without levels or with levels missing a threshold', () => {
+    expect(() => assessComplexity(4, [])).toThrow(RangeError);
+    expect(() => assessComplexity(4, [{ name: 'a' }, { name: 'b' }])).toThrow(
+      'Level b needs a threshold'
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Line-at-a-time comment and string detection, for input read
+ * incrementally. Agrees with findCommentLines and findStringBodies.
+ */
+
+import type { CommentOptions, ScanState } from './comments.js';
+import { isCommentScan, scanLine } from './comments.js';
+import {
+  DEFAULT_COMMENT_PATTERN,
+  DEFAULT_COMMENT_SYNTAX,
+  DEFAULT_STRING_DELIMITERS,
+} from './constants.js';
+
+/** How a line was classified */
+export interface LineClass {
+  /** Comment line, according to the comment mode */
+  comment: boolean;
+  /** Starts inside a multi-line string opened on an earlier line */
+  stringBody: boolean;
+  /** Opens a multi-line string that continues on the next line */
+  opensString: boolean;
+}
+
+/** Classifies a line given the scan state it starts in */
+export type LineScanner = (line: string, start: ScanState) => LineClass & { end: ScanState };
+
+/**
+ * Create a scanner that classifies a line given the state left by the
+ * line before it, so callers can resume scanning at any line.
+ *
+ * @param options - Comment pattern, mode and syntax, and string delimiters
+ * @returns A function classifying a line and returning the state it ends in
+ */
+export function createLineScanner(options: CommentOptions = {}): LineScanner {
+  const { commentPattern = DEFAULT_COMMENT_PATTERN, commentMode = 'pattern' } = options;
+  const syntax = { ...DEFAULT_COMMENT_SYNTAX, ...options.commentSyntax };
+  const strings = options.stringDelimiters ?? DEFAULT_STRING_DELIMITERS;
+
+  return (line, start) => {
+    const end = scanLine(line, syntax, strings, start);
+
+    let comment = false;
+    if (commentPattern !== null) {
+      comment =
+        commentMode === 'stateful' ? isCommentScan(line, end, start) : commentPattern.test(line);
+    }
+
+    return {
+      comment,
+      stringBody: start.string !== null,
+      opensString: end.string !== null && end.string !== start.string,
+      end: { block: end.block, string: end.string },
+    };
+  };
+}
+
+/**
+ * Create a classifier that takes the lines of a file one at a time, in
+ * source order.
+ *
+ * @param options - Comment pattern, mode and syntax, and string delimiters
+ * @returns A function classifying the next line
+ */
+export function createLineClassifier(options: CommentOptions = {}): (line: string) => LineClass {
+  const scan = createLineScanner(options);
+  let state: ScanState = { block: null, string: null };
+
+  return (line) => {
+    const lineClass = scan(line, state);
+    state = lineClass.end;
+    return lineClass;
+  };
+}
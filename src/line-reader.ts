@@ -0,0 +1,31 @@
+/**
+ * Reading text streams line by line.
+ */
+
+import type { Readable } from 'node:stream';
+
+/** Chunks of text: a Node Readable, or any async iterable of strings or bytes */
+export type StreamSource = Readable | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Split a stream of chunks into lines, as `text.split('\n')` would.
+ *
+ * Bytes are decoded as UTF-8, including characters split across chunks.
+ * Only the current partial line is buffered.
+ *
+ * @param source - Chunks of text
+ * @yields Lines without their `\n`
+ */
+export async function* readLines(source: StreamSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let rest = '';
+
+  for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = (rest + text).split('\n');
+    rest = lines.pop() ?? '';
+    yield* lines;
+  }
+
+  yield rest + decoder.decode();
+}
@@ -0,0 +1,158 @@
+/**
+ * Language Server Protocol features computed from an analysis:
+ * diagnostics, code lenses and hovers.
+ */
+
+import type {
+  BlockComplexity,
+  ComplexityLevel,
+  ComplexityResultWithBlocks,
+  ComplexityResultWithLines,
+} from './types.js';
+import type { LevelScale } from './assessment.js';
+import { levelSeverity } from './assessment.js';
+
+/** An analysis with line details and blocks, on any scale of levels */
+export type DocumentAnalysis = ComplexityResultWithLines<string> &
+  ComplexityResultWithBlocks<string>;
+
+/** 0-indexed range, as in LSP */
+export interface LspRange {
+  start: { line: number; character: number };
+  end: { line: number; character: number };
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  /** 2 = warning, 3 = information */
+  severity: 2 | 3;
+  source: string;
+  message: string;
+}
+
+export interface LspCodeLens {
+  range: LspRange;
+  command: { title: string; command: string };
+}
+
+export interface LspHover {
+  contents: { kind: 'markdown'; value: string };
+  range?: LspRange;
+}
+
+const SOURCE = 'indent-complexity';
+
+const SEVERITIES: Partial<Record<ComplexityLevel, LspDiagnostic['severity']>> = {
+  high: 2,
+  medium: 3,
+};
+
+/** Range covering one line of the document */
+function lineRange(lines: string[], line: number): LspRange {
+  return {
+    start: { line, character: 0 },
+    end: { line, character: lines[line]?.length ?? 0 },
+  };
+}
+
+/** Severity of a level, by where it falls on its scale (see levelSeverity) */
+function severityOf(
+  level: string,
+  levels: LevelScale<string> | undefined
+): LspDiagnostic['severity'] | undefined {
+  const severity = levelSeverity(level, levels);
+  return severity === undefined ? undefined : SEVERITIES[severity];
+}
+
+function describeBlock(block: BlockComplexity<string>): string {
+  return `Block complexity ${block.score.toFixed(1)} (${block.level}): max depth ${block.max} over ${block.lineCount} lines`;
+}
+
+/**
+ * Diagnostics for the document and each block at the medium or high level,
+ * or on a custom scale at any level above the first.
+ *
+ * @param analysis - Analysis of the document
+ * @param lines - Document lines, for ranges
+ * @param levels - Scale of the analysis. Default: low / medium / high
+ */
+export function toDiagnostics(
+  analysis: DocumentAnalysis,
+  lines: string[],
+  levels?: LevelScale<string>
+): LspDiagnostic[] {
+  const diagnostics: LspDiagnostic[] = [];
+  const fileSeverity = severityOf(analysis.level, levels);
+  if (fileSeverity) {
+    diagnostics.push({
+      range: lineRange(lines, 0),
+      severity: fileSeverity,
+      source: SOURCE,
+      message: `File complexity: ${analysis.reason}`,
+    });
+  }
+
+  for (const block of analysis.blocks) {
+    const severity = severityOf(block.level, levels);
+    if (!severity) continue;
+    diagnostics.push({
+      range: lineRange(lines, block.startLine - 1),
+      severity,
+      source: SOURCE,
+      message: describeBlock(block),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * A code lens with the score of each block, on its header line.
+ */
+export function toCodeLenses(analysis: DocumentAnalysis, lines: string[]): LspCodeLens[] {
+  return [...analysis.blocks]
+    .sort((a, b) => a.startLine - b.startLine)
+    .map((block) => ({
+      range: lineRange(lines, block.startLine - 1),
+      command: {
+        title: `Complexity ${block.score.toFixed(1)} (${block.level}) · max depth ${block.max}`,
+        command: '',
+      },
+    }));
+}
+
+/**
+ * Hover for a line: its depth, and the statistics of the block around it.
+ *
+ * @param analysis - Analysis of the document
+ * @param lines - Document lines, for ranges
+ * @param line - 0-indexed line
+ * @returns The hover, or null for lines that are not measured or in a block
+ */
+export function toHover(
+  analysis: DocumentAnalysis,
+  lines: string[],
+  line: number
+): LspHover | null {
+  const detail = analysis.lines.find((l) => l.line === line + 1);
+  const block = analysis.blocks.find((b) => b.startLine <= line + 1 && line + 1 <= b.endLine);
+  if (!detail && !block) return null;
+
+  const sections: string[] = [];
+  if (detail) sections.push(`**Depth ${detail.depth}**`);
+  if (block) {
+    sections.push(
+      [
+        `Block \`${block.header}\` (lines ${block.startLine}-${block.endLine})`,
+        `| score | level | max | mean | median | variance |`,
+        `| --- | --- | --- | --- | --- | --- |`,
+        `| ${block.score.toFixed(2)} | ${block.level} | ${block.max} | ${block.mean.toFixed(2)} | ${block.median} | ${block.variance.toFixed(2)} |`,
+      ].join('\n')
+    );
+  }
+
+  return {
+    contents: { kind: 'markdown', value: sections.join('\n\n') },
+    range: lineRange(lines, line),
+  };
+}
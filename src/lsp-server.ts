@@ -0,0 +1,250 @@
+/**
+ * Language server: keeps open documents and answers with complexity
+ * diagnostics, code lenses and hovers.
+ */
+
+import type { AnalyzeOptions } from './types.js';
+import type { TextEdit } from './incremental.js';
+import type { DocumentAnalysis } from './lsp-features.js';
+import { analyzeComplexity } from './analyze.js';
+import { toCodeLenses, toDiagnostics, toHover } from './lsp-features.js';
+
+/** A JSON-RPC request, response or notification */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Server settings, from `initializationOptions` or the `indentComplexity`
+ * section of `workspace/didChangeConfiguration`. The comment pattern is a
+ * regex source; null includes comments. Custom `levels` get severities by
+ * where they fall on their scale.
+ */
+export type LspSettings = Omit<
+  AnalyzeOptions<string>,
+  'commentPattern' | 'filename' | 'verbose' | 'includeLines' | 'blocks'
+> & { commentPattern?: string | null };
+
+/** Handles the messages of one client */
+export interface LspServer {
+  handle: (message: JsonRpcMessage) => void;
+  /** Exit code once the client sent `exit`: 0 after `shutdown`, 1 otherwise */
+  exitCode: () => number | undefined;
+}
+
+interface OpenDocument {
+  lines: string[];
+  analysis: DocumentAnalysis;
+}
+
+interface ServerState {
+  send: (message: JsonRpcMessage) => void;
+  options: AnalyzeOptions<string>;
+  documents: Map<string, OpenDocument>;
+  shutdown: boolean;
+  exitCode: number | undefined;
+}
+
+interface DocumentParams {
+  textDocument: { uri: string; text?: string };
+  contentChanges?: TextEdit[];
+  position?: { line: number; character: number };
+}
+
+type Handler = (state: ServerState, params: unknown) => unknown;
+
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+const CAPABILITIES = {
+  // 2 = incremental changes
+  textDocumentSync: { openClose: true, change: 2 },
+  hoverProvider: true,
+  codeLensProvider: { resolveProvider: false },
+};
+
+function toAnalyzeOptions(settings: LspSettings = {}): AnalyzeOptions<string> {
+  const { commentPattern, ...options } = settings;
+  if (commentPattern === undefined) return options;
+  return {
+    ...options,
+    commentPattern: commentPattern === null ? null : new RegExp(commentPattern),
+  };
+}
+
+/** File path of a `file:` URI, for language detection */
+function uriPath(uri: string): string {
+  try {
+    return decodeURIComponent(new URL(uri).pathname);
+  } catch {
+    return uri;
+  }
+}
+
+/** Apply an edit to the lines of a document, clamping its range as editors do */
+function applyEdit(lines: readonly string[], edit: TextEdit): string[] {
+  if (!edit.range) return edit.text.split('\n');
+  const last = lines.length - 1;
+  const clamp = ({ line, character }: { line: number; character: number }) =>
+    line > last
+      ? { line: last, character: lines[last]?.length ?? 0 }
+      : { line: Math.max(0, line), character: Math.max(0, character) };
+  const start = clamp(edit.range.start);
+  const end = clamp(edit.range.end);
+  const before = lines[start.line]?.slice(0, start.character) ?? '';
+  const after = lines[end.line]?.slice(end.character) ?? '';
+
+  return [
+    ...lines.slice(0, start.line),
+    ...(before + edit.text + after).split('\n'),
+    ...lines.slice(end.line + 1),
+  ];
+}
+
+/**
+ * Analyze a document in full: diagnostics, code lenses and hovers need
+ * its blocks and line details, which the incremental analyzer does not
+ * keep.
+ */
+function analyze(state: ServerState, uri: string, lines: string[]): void {
+  const analysis = analyzeComplexity(lines.join('\n'), {
+    ...state.options,
+    filename: uriPath(uri),
+    includeLines: true,
+    blocks: true,
+  });
+  state.documents.set(uri, { lines, analysis });
+  state.send({
+    jsonrpc: '2.0',
+    method: 'textDocument/publishDiagnostics',
+    params: { uri, diagnostics: toDiagnostics(analysis, lines, state.options.levels) },
+  });
+}
+
+function openDocument(state: ServerState, uri: string): OpenDocument {
+  const document = state.documents.get(uri);
+  if (!document) throw new Error(`Document is not open: ${uri}`);
+  return document;
+}
+
+const HANDLERS: Record<string, Handler> = {
+  initialize: (state, params) => {
+    const { initializationOptions } = params as { initializationOptions?: LspSettings };
+    state.options = toAnalyzeOptions(initializationOptions);
+    return { capabilities: CAPABILITIES, serverInfo: { name: 'indent-complexity' } };
+  },
+  initialized: () => undefined,
+  shutdown: (state) => {
+    state.shutdown = true;
+    return null;
+  },
+  exit: (state) => {
+    state.exitCode = state.shutdown ? 0 : 1;
+  },
+  'workspace/didChangeConfiguration': (state, params) => {
+    const { settings } = params as { settings?: { indentComplexity?: LspSettings } };
+    // Settings are merged over the initializationOptions; clients without
+    // an indentComplexity section keep them
+    if (!settings?.indentComplexity) return;
+    state.options = { ...state.options, ...toAnalyzeOptions(settings.indentComplexity) };
+    for (const [uri, document] of state.documents) analyze(state, uri, document.lines);
+  },
+  'textDocument/didOpen': (state, params) => {
+    const { textDocument } = params as DocumentParams;
+    analyze(state, textDocument.uri, (textDocument.text ?? '').split('\n'));
+  },
+  'textDocument/didChange': (state, params) => {
+    const { textDocument, contentChanges = [] } = params as DocumentParams;
+    const { lines } = openDocument(state, textDocument.uri);
+    analyze(state, textDocument.uri, contentChanges.reduce(applyEdit, lines));
+  },
+  'textDocument/didClose': (state, params) => {
+    const { uri } = (params as DocumentParams).textDocument;
+    state.documents.delete(uri);
+    state.send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics: [] },
+    });
+  },
+  'textDocument/hover': (state, params) => {
+    const { textDocument, position } = params as DocumentParams;
+    const document = openDocument(state, textDocument.uri);
+    return toHover(document.analysis, document.lines, position?.line ?? 0);
+  },
+  'textDocument/codeLens': (state, params) => {
+    const document = openDocument(state, (params as DocumentParams).textDocument.uri);
+    return toCodeLenses(document.analysis, document.lines);
+  },
+};
+
+function respond(state: ServerState, message: JsonRpcMessage, handler: Handler): void {
+  const id = message.id ?? null;
+  try {
+    const result = handler(state, message.params ?? {});
+    state.send({ jsonrpc: '2.0', id, result: result ?? null });
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error);
+    state.send({ jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: text } });
+  }
+}
+
+function notify(state: ServerState, message: JsonRpcMessage, handler: Handler): void {
+  try {
+    handler(state, message.params ?? {});
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error);
+    // 1 = error
+    state.send({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: 1, message: text } });
+  }
+}
+
+/**
+ * Create a language server that reports indentation complexity.
+ *
+ * Open documents are analyzed with blocks on every change: the file and
+ * each block at the medium or high level get a diagnostic, each block a
+ * code lens with its score, and hovering a line shows its depth and the
+ * statistics of its block. Thresholds and comment options come from the
+ * client's settings (see LspSettings).
+ *
+ * @param send - Sends a response or notification to the client
+ * @example
+ * ```typescript
+ * const server = createLspServer((message) => socket.write(encodeFrame(message)));
+ * socket.on('message', (message) => server.handle(message));
+ * ```
+ */
+export function createLspServer(send: (message: JsonRpcMessage) => void): LspServer {
+  const state: ServerState = {
+    send,
+    options: {},
+    documents: new Map(),
+    shutdown: false,
+    exitCode: undefined,
+  };
+
+  return {
+    handle: (message) => {
+      const handler = message.method === undefined ? undefined : HANDLERS[message.method];
+      const isRequest = message.id !== undefined;
+
+      if (handler) {
+        if (isRequest) respond(state, message, handler);
+        else notify(state, message, handler);
+      } else if (isRequest && message.method !== undefined) {
+        state.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: METHOD_NOT_FOUND, message: `Unknown method: ${message.method}` },
+        });
+      }
+    },
+    exitCode: () => state.exitCode,
+  };
+}
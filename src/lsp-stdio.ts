@@ -0,0 +1,96 @@
+/**
+ * Language server over a byte stream: JSON-RPC messages framed by a
+ * `Content-Length` header, as on stdio.
+ */
+
+import type { StreamSource } from './line-reader.js';
+import type { JsonRpcMessage } from './lsp-server.js';
+import { createLspServer } from './lsp-server.js';
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * Frame a message with its `Content-Length` header.
+ */
+export function encodeMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_END}${body}`;
+}
+
+/**
+ * Read the first frame of a buffer: its body, unless its header has no
+ * valid length, and the bytes after it.
+ *
+ * @returns undefined until the buffer holds the whole frame
+ */
+function readFrame(buffer: Buffer): { body?: string; rest: Buffer } | undefined {
+  const headerEnd = buffer.indexOf(HEADER_END);
+  if (headerEnd === -1) return undefined;
+
+  const header = buffer.subarray(0, headerEnd).toString('ascii');
+  const length = Number(/content-length:\s*(\d+)/i.exec(header)?.[1] ?? Number.NaN);
+  const bodyStart = headerEnd + HEADER_END.length;
+  if (Number.isNaN(length)) return { rest: buffer.subarray(bodyStart) };
+  if (buffer.length < bodyStart + length) return undefined;
+
+  return {
+    body: buffer.subarray(bodyStart, bodyStart + length).toString('utf8'),
+    rest: buffer.subarray(bodyStart + length),
+  };
+}
+
+/**
+ * Split a byte stream into message bodies.
+ *
+ * Headers other than `Content-Length` are ignored. A header block without
+ * a valid length is dropped.
+ *
+ * @param source - Chunks of the stream
+ * @yields The JSON body of each message, unparsed
+ */
+export async function* readMessages(source: StreamSource): AsyncGenerator<string> {
+  let buffer: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+    buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+
+    for (let frame = readFrame(buffer); frame; frame = readFrame(buffer)) {
+      if (frame.body !== undefined) yield frame.body;
+      buffer = frame.rest;
+    }
+  }
+}
+
+/**
+ * Run a language server until the client sends `exit` or closes the input.
+ *
+ * @param input - Stream of framed messages from the client, e.g. stdin
+ * @param write - Writes framed messages to the client, e.g. to stdout
+ * @returns Exit code: 0 if the client sent `shutdown` first, 1 otherwise
+ */
+export async function runLspServer(
+  input: StreamSource,
+  write: (text: string) => void
+): Promise<number> {
+  const server = createLspServer((message) => write(encodeMessage(message)));
+
+  for await (const body of readMessages(input)) {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(body) as JsonRpcMessage;
+    } catch {
+      write(
+        encodeMessage({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })
+      );
+      continue;
+    }
+
+    server.handle(message);
+    const exitCode = server.exitCode();
+    if (exitCode !== undefined) return exitCode;
+  }
+
+  // A closed input ends the session as `exit` would
+  server.handle({ jsonrpc: '2.0', method: 'exit' });
+  return server.exitCode() ?? 1;
+}
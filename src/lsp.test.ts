@@ -0,0 +1,352 @@
+import { PassThrough, Readable } from 'node:stream';
+import { describe, it, expect } from 'vitest';
+import { runLspServer } from './index.js';
+import type { JsonRpcMessage } from './index.js';
+import { encodeMessage, readMessages } from './lsp-stdio.js';
+
+const URI = 'file:///project/src/load.ts';
+
+const SHALLOW = `export const a = 1;
+export const b = 2;`;
+
+const NESTED = `function load(items) {
+  for (const item of items) {
+    if (item.ok) {
+      if (item.ready) {
+        if (item.valid) {
+          run(item);
+        }
+      }
+    }
+  }
+}
+
+function pick(a) {
+  return a;
+}`;
+
+/** Run a session over streams, as a client on stdio would */
+async function session(messages: JsonRpcMessage[]) {
+  const input = new PassThrough();
+  let output = '';
+  const done = runLspServer(input, (text) => {
+    output += text;
+  });
+
+  for (const message of messages) input.write(encodeMessage(message));
+  input.end();
+  const exitCode = await done;
+
+  const received: JsonRpcMessage[] = [];
+  for await (const body of readMessages(Readable.from([output]))) received.push(JSON.parse(body));
+  return { exitCode, received };
+}
+
+function request(id: number, method: string, params: unknown = {}): JsonRpcMessage {
+  return { jsonrpc: '2.0', id, method, params };
+}
+
+function notification(method: string, params: unknown = {}): JsonRpcMessage {
+  return { jsonrpc: '2.0', method, params };
+}
+
+function open(text: string, uri = URI): JsonRpcMessage {
+  return notification('textDocument/didOpen', {
+    textDocument: { uri, languageId: 'typescript', version: 1, text },
+  });
+}
+
+function diagnostics(received: JsonRpcMessage[]) {
+  return received
+    .filter((message) => message.method === 'textDocument/publishDiagnostics')
+    .map((message) => message.params as { uri: string; diagnostics: { message: string }[] });
+}
+
+function response(received: JsonRpcMessage[], id: number) {
+  return received.find((message) => message.id === id);
+}
+
+describe('readMessages', () => {
+  it('should split frames across and within chunks', async () => {
+    const framed = encodeMessage(notification('a')) + encodeMessage(notification('b'));
+    const chunks = [framed.slice(0, 10), framed.slice(10, 60), framed.slice(60)];
+
+    const bodies: string[] = [];
+    for await (const body of readMessages(Readable.from(chunks))) bodies.push(body);
+
+    expect(bodies.map((body) => JSON.parse(body).method)).toEqual(['a', 'b']);
+  });
+
+  it('should count the length in bytes', async () => {
+    const framed = encodeMessage(notification('é'));
+    const bodies: string[] = [];
+    for await (const body of readMessages(Readable.from([Buffer.from(framed)]))) bodies.push(body);
+
+    expect(JSON.parse(bodies[0] ?? '').method).toBe('é');
+  });
+});
+
+describe('runLspServer', () => {
+  describe('lifecycle', () => {
+    it('should advertise hover, code lenses and incremental sync', async () => {
+      const { received } = await session([request(1, 'initialize')]);
+
+      expect(response(received, 1)?.result).toMatchObject({
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 2 },
+          hoverProvider: true,
+          codeLensProvider: {},
+        },
+      });
+    });
+
+    it('should exit with 0 after shutdown and 1 without', async () => {
+      const clean = await session([
+        request(1, 'initialize'),
+        request(2, 'shutdown'),
+        notification('exit'),
+      ]);
+      const abrupt = await session([request(1, 'initialize'), notification('exit')]);
+
+      expect(response(clean.received, 2)?.result).toBeNull();
+      expect(clean.exitCode).toBe(0);
+      expect(abrupt.exitCode).toBe(1);
+    });
+
+    it('should answer unknown requests with an error and ignore unknown notifications', async () => {
+      const { received } = await session([
+        notification('$/setTrace'),
+        request(1, 'workspace/symbol'),
+      ]);
+
+      expect(received).toEqual([
+        {
+          jsonrpc: '2.0',
+          id: 1,
+          error: { code: -32601, message: 'Unknown method: workspace/symbol' },
+        },
+      ]);
+    });
+
+    it('should answer malformed messages with a parse error', async () => {
+      const input = new PassThrough();
+      let output = '';
+      const done = runLspServer(input, (text) => {
+        output += text;
+      });
+      input.end('Content-Length: 3\r\n\r\n{{{');
+      await done;
+
+      expect(output).toContain('"code":-32700');
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should publish diagnostics for the file and its complex blocks', async () => {
+      const { received } = await session([request(1, 'initialize'), open(NESTED)]);
+      const [published] = diagnostics(received);
+
+      expect(published?.uri).toBe(URI);
+      expect(published?.diagnostics).toEqual([
+        expect.objectContaining({
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 22 } },
+          severity: 3,
+          source: 'indent-complexity',
+          message: expect.stringContaining('File complexity'),
+        }),
+        expect.objectContaining({
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 22 } },
+          severity: 3,
+          message: expect.stringContaining('Block complexity'),
+        }),
+      ]);
+    });
+
+    it('should publish no diagnostics for simple files', async () => {
+      const { received } = await session([request(1, 'initialize'), open(SHALLOW)]);
+
+      expect(diagnostics(received)).toEqual([{ uri: URI, diagnostics: [] }]);
+    });
+
+    it('should re-analyze after incremental changes', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(SHALLOW),
+        notification('textDocument/didChange', {
+          textDocument: { uri: URI, version: 2 },
+          contentChanges: [
+            {
+              range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } },
+              text: `\n${NESTED}`,
+            },
+          ],
+        }),
+      ]);
+      const [before, after] = diagnostics(received);
+
+      expect(before?.diagnostics).toEqual([]);
+      expect(after?.diagnostics.length).toBeGreaterThan(0);
+    });
+
+    it('should apply several changes in order, clamping ranges past the end', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(NESTED),
+        notification('textDocument/didChange', {
+          textDocument: { uri: URI, version: 2 },
+          contentChanges: [
+            { text: SHALLOW },
+            {
+              range: { start: { line: 9, character: 0 }, end: { line: 9, character: 0 } },
+              text: `\n${NESTED}`,
+            },
+            {
+              range: { start: { line: 0, character: 0 }, end: { line: 2, character: 0 } },
+              text: '',
+            },
+          ],
+        }),
+        request(2, 'textDocument/codeLens', { textDocument: { uri: URI } }),
+      ]);
+      const lenses = response(received, 2)?.result as { range: { start: { line: number } } }[];
+
+      expect(lenses.map((lens) => lens.range.start.line)).toEqual([0, 12]);
+    });
+
+    it('should clear diagnostics when a document closes', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(NESTED),
+        notification('textDocument/didClose', { textDocument: { uri: URI } }),
+      ]);
+
+      expect(diagnostics(received).at(-1)).toEqual({ uri: URI, diagnostics: [] });
+    });
+  });
+
+  describe('settings', () => {
+    it('should use thresholds from initializationOptions', async () => {
+      const { received } = await session([
+        request(1, 'initialize', { initializationOptions: { thresholds: { high: 5 } } }),
+        open(NESTED),
+      ]);
+
+      expect(diagnostics(received)[0]?.diagnostics).toEqual([
+        expect.objectContaining({ severity: 2 }),
+        expect.objectContaining({ severity: 2 }),
+      ]);
+    });
+
+    it('should use a comment pattern from the settings', async () => {
+      const { received } = await session([
+        request(1, 'initialize', { initializationOptions: { commentPattern: '^\\s*(?:for|if)' } }),
+        open(NESTED),
+        request(2, 'textDocument/hover', {
+          textDocument: { uri: URI },
+          position: { line: 1, character: 4 },
+        }),
+      ]);
+      const hover = response(received, 2)?.result as { contents: { value: string } };
+
+      expect(hover.contents.value).not.toContain('**Depth');
+    });
+
+    it('should give diagnostics for the levels of a custom scale', async () => {
+      const levels = [
+        { name: 'ok' },
+        { name: 'watch', threshold: 2 },
+        { name: 'blocker', threshold: 3 },
+      ];
+      const { received } = await session([
+        request(1, 'initialize', { initializationOptions: { levels } }),
+        open(NESTED),
+      ]);
+
+      expect(diagnostics(received)[0]?.diagnostics).toEqual([
+        expect.objectContaining({ severity: 2, message: expect.stringContaining('blocker') }),
+        expect.objectContaining({ severity: 2 }),
+      ]);
+    });
+
+    it('should re-analyze open documents when the configuration changes', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(NESTED),
+        notification('workspace/didChangeConfiguration', {
+          settings: { indentComplexity: { thresholds: { medium: 1000, high: 2000 } } },
+        }),
+      ]);
+
+      expect(diagnostics(received).map((d) => d.diagnostics.length)).toEqual([2, 0]);
+    });
+
+    it('should merge configuration changes over the initializationOptions', async () => {
+      const { received } = await session([
+        request(1, 'initialize', { initializationOptions: { thresholds: { high: 5 } } }),
+        open(NESTED),
+        notification('workspace/didChangeConfiguration', { settings: { editor: {} } }),
+        notification('workspace/didChangeConfiguration', {
+          settings: { indentComplexity: { commentPattern: null } },
+        }),
+      ]);
+
+      const warnings = [
+        expect.objectContaining({ severity: 2 }),
+        expect.objectContaining({ severity: 2 }),
+      ];
+
+      expect(diagnostics(received).map((d) => d.diagnostics)).toEqual([warnings, warnings]);
+    });
+  });
+
+  describe('code lenses and hovers', () => {
+    it('should offer a code lens with the score of each block', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(NESTED),
+        request(2, 'textDocument/codeLens', { textDocument: { uri: URI } }),
+      ]);
+      const lenses = response(received, 2)?.result as {
+        range: { start: { line: number } };
+        command: { title: string };
+      }[];
+
+      expect(lenses.map((lens) => lens.range.start.line)).toEqual([0, 12]);
+      expect(lenses[0]?.command.title).toMatch(/^Complexity \d+\.\d \(medium\) · max depth 5$/);
+      expect(lenses[1]?.command.title).toMatch(/\(low\)/);
+    });
+
+    it('should show the depth and block statistics on hover', async () => {
+      const { received } = await session([
+        request(1, 'initialize'),
+        open(NESTED),
+        request(2, 'textDocument/hover', {
+          textDocument: { uri: URI },
+          position: { line: 5, character: 10 },
+        }),
+        request(3, 'textDocument/hover', {
+          textDocument: { uri: URI },
+          position: { line: 11, character: 0 },
+        }),
+      ]);
+      const hover = response(received, 2)?.result as { contents: { kind: string; value: string } };
+
+      expect(hover.contents.kind).toBe('markdown');
+      expect(hover.contents.value).toContain('**Depth 5**');
+      expect(hover.contents.value).toContain('Block `function load(items) {` (lines 1-11)');
+      expect(hover.contents.value).toContain('| score | level | max | mean | median | variance |');
+      expect(response(received, 3)?.result).toBeNull();
+    });
+
+    it('should report requests for documents that are not open', async () => {
+      const { received } = await session([
+        request(1, 'textDocument/codeLens', { textDocument: { uri: 'file:///missing.ts' } }),
+      ]);
+
+      expect(response(received, 1)?.error).toEqual({
+        code: -32603,
+        message: 'Document is not open: file:///missing.ts',
+      });
+    });
+  });
+});
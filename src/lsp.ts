@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+/**
+ * `indent-complexity-lsp` executable: a language server on stdio.
+ */
+
+import { runLspServer } from './lsp-stdio.js';
+
+async function main(): Promise<void> {
+  process.exitCode = await runLspServer(process.stdin, (text) => process.stdout.write(text));
+}
+
+void main();
@@ -3,146 +3,206 @@
  */
 
 import detectIndent from 'detect-indent';
-import type { ParsedLine } from './types.js';
-import { DEFAULT_COMMENT_PATTERN } from './constants.js';
+import type { AnalyzeOptions, DiffSide } from './types.js';
+import type { CommentOptions } from './comments.js';
+import { findCommentLines, findStringBodies } from './comments.js';
+import { normalizeContinuations } from './continuation.js';
+import { findDirectives } from './directives.js';
+
+/** Internal representation of a parsed line */
+export interface ParsedLine {
+  lineNumber: number;
+  depth: number;
+  content: string;
+  file?: string;
+  side?: DiffSide;
+  hunk?: number;
+  /** Inside a multi-line string: 'skip' leaves it out, 'pin' keeps its pinned depth */
+  stringBody?: 'skip' | 'pin';
+  /** Left out by a disable directive */
+  suppressed?: boolean;
+}
 
-export interface ParseOptions {
-  commentPattern?: RegExp | null;
+export interface ParseOptions
+  extends CommentOptions, Pick<AnalyzeOptions, 'indentUnit' | 'tabWidth'> {
+  multilineStrings?: 'include' | 'skip' | 'pin';
+  normalizeContinuations?: boolean;
 }
 
 export interface ParseResult {
   lines: ParsedLine[];
   indentUnit: number;
+  /** Thresholds set by directives, by level name */
+  thresholdOverrides?: Record<string, number>;
+}
+
+/** How parseContent classified each line, by index */
+interface LineClasses {
+  commentLines: boolean[];
+  /** Index of the line that opened the string each string body line is in */
+  stringOpeners: (number | undefined)[];
+  suppressed: boolean[];
+}
+
+/** Lines that sample the indent unit (see detectCodeIndentUnit) */
+function sampleLines(rawLines: string[], classes: LineClasses, options: ParseOptions): string[] {
+  const sampleComments = options.commentMode !== 'stateful';
+  return rawLines.filter(
+    (line, i) =>
+      (sampleComments || !classes.commentLines[i]) &&
+      !classes.suppressed[i] &&
+      classes.stringOpeners[i] === undefined &&
+      line.trim() !== ''
+  );
+}
+
+/** The line at index i to measure; blank and comment lines give undefined */
+function toParsedLine(
+  rawLines: string[],
+  i: number,
+  classes: LineClasses,
+  indentUnit: number,
+  options: ParseOptions
+): ParsedLine | undefined {
+  const trimmed = rawLines[i]?.trim() ?? '';
+  const opener = classes.stringOpeners[i];
+  // Comment lines are skipped outside strings only
+  if (trimmed.length === 0 || (opener === undefined && classes.commentLines[i])) return undefined;
+
+  const line: ParsedLine = {
+    lineNumber: i + 1,
+    // String bodies take the depth of the line that opened the string
+    depth: computeIndentDepth(rawLines[opener ?? i] ?? '', indentUnit, options.tabWidth),
+    content: trimmed,
+  };
+  const { multilineStrings = 'include' } = options;
+  if (opener !== undefined && multilineStrings !== 'include') line.stringBody = multilineStrings;
+  if (classes.suppressed[i]) line.suppressed = true;
+  return line;
 }
 
 /**
  * Parse source content into lines with indentation depths.
  *
+ * Lines inside multi-line strings are flagged with `stringBody` unless
+ * `multilineStrings` is 'include', and take the depth of the line that
+ * opened the string. With `normalizeContinuations`, continuation lines take
+ * the depth of their statement. Lines suppressed by directives are flagged
+ * with `suppressed` and do not sample the indent unit; nor do comment
+ * lines in stateful mode.
+ *
  * @param content - Source code content
  * @param options - Parsing options
  * @returns Parsed lines and detected indent unit
  */
 export function parseContent(content: string, options: ParseOptions = {}): ParseResult {
-  const { commentPattern = DEFAULT_COMMENT_PATTERN } = options;
-
+  const { multilineStrings = 'include' } = options;
   const rawLines = content.split('\n');
-  const { amount, type } = detectIndent(content);
-  const indentUnit = type === 'tab' ? 1 : amount || 1;
-
-  const lines: ParsedLine[] = [];
-
-  for (let i = 0; i < rawLines.length; i++) {
-    const line = rawLines[i];
-    if (line === undefined) continue;
-    const trimmed = line.trim();
-
-    // Skip empty lines
-    if (trimmed.length === 0) {
-      continue;
-    }
-
-    // Skip comment lines
-    if (commentPattern !== null && commentPattern.test(line)) {
-      continue;
-    }
-
-    const depth = computeIndentDepth(line, indentUnit);
-
-    lines.push({
-      lineNumber: i + 1,
-      depth,
-      content: trimmed,
-    });
+  const { suppressed, thresholdOverrides } = findDirectives(rawLines, options);
+  const classes: LineClasses = {
+    commentLines: findCommentLines(rawLines, options),
+    stringOpeners: multilineStrings === 'include' ? [] : findStringBodies(rawLines, options),
+    suppressed,
+  };
+  const indentUnit = detectCodeIndentUnit(sampleLines(rawLines, classes, options), options);
+
+  const lines = rawLines.flatMap(
+    (_, i) => toParsedLine(rawLines, i, classes, indentUnit, options) ?? []
+  );
+
+  if (options.normalizeContinuations) {
+    applyContinuations(lines, rawLines, indentUnit, options);
   }
 
-  return { lines, indentUnit };
+  return thresholdOverrides ? { lines, indentUnit, thresholdOverrides } : { lines, indentUnit };
 }
 
 /**
- * Compute the logical indentation depth of a line.
- *
- * @param line - Raw line content
- * @param indentUnit - Number of spaces per indent level
- * @returns Logical indent depth
+ * Detect the indent unit from code lines only, so string contents and
+ * aligned continuation lines cannot skew it. Comment lines are left out
+ * in stateful mode only: in the default pattern mode they sample the unit
+ * with the rest of the file, keeping default scores unchanged.
  */
-export function computeIndentDepth(line: string, indentUnit: number): number {
-  const leadingWhitespace = line.match(/^[\t ]*/)?.[0] ?? '';
-
-  let charCount = 0;
-  for (const char of leadingWhitespace) {
-    charCount += char === '\t' ? indentUnit : 1;
+function detectCodeIndentUnit(codeLines: string[], options: ParseOptions): number {
+  if (options.indentUnit !== undefined) return options.indentUnit;
+  if (!options.normalizeContinuations) {
+    return detectIndentUnit(codeLines.join('\n'), 1, options.tabWidth);
   }
 
-  return Math.floor(charCount / indentUnit);
+  const continuations = normalizeContinuations(
+    codeLines.map((text) => ({ text, depth: 0 })),
+    1,
+    options
+  );
+  return detectIndentUnit(
+    codeLines.filter((_, i) => !continuations[i]?.continues).join('\n'),
+    1,
+    options.tabWidth
+  );
 }
 
-const DIFF_HEADER_PREFIXES = ['diff ', 'index ', '+++', '---', '@@'];
-
-function isDiffHeader(line: string): boolean {
-  return DIFF_HEADER_PREFIXES.some((prefix) => line.startsWith(prefix));
-}
-
-function shouldIncludeLine(line: string, include: 'additions' | 'deletions' | 'both'): boolean {
-  const isAddition = line.startsWith('+');
-  const isDeletion = line.startsWith('-');
-
-  if (!isAddition && !isDeletion) return false;
-
-  if (include === 'additions') return isAddition;
-  if (include === 'deletions') return isDeletion;
-  // include === 'both'
-  return true;
+/**
+ * Give continuation lines the depth of their statement, in place.
+ * String body lines are left alone.
+ */
+function applyContinuations(
+  lines: ParsedLine[],
+  rawLines: string[],
+  indentUnit: number,
+  options: ParseOptions
+): void {
+  const code = lines.filter((l) => l.stringBody === undefined);
+  const depths = normalizeContinuations(
+    code.map((l) => ({ text: rawLines[l.lineNumber - 1] ?? '', depth: l.depth })),
+    indentUnit,
+    options
+  );
+  code.forEach((l, i) => {
+    l.depth = depths[i]?.depth ?? l.depth;
+  });
 }
 
-function extractDiffCodeLines(rawLines: string[]): string[] {
-  return rawLines
-    .filter((line) => line.startsWith('+') || line.startsWith('-'))
-    .filter((line) => !line.startsWith('+++') && !line.startsWith('---'))
-    .map((line) => line.slice(1));
+/**
+ * Detect the number of spaces per indent level (1 for tabs).
+ *
+ * @param content - Content to sample
+ * @param fallback - Unit to use when the content has no indentation
+ * @param tabWidth - Unit of tab-indented content: the columns of a tab
+ */
+export function detectIndentUnit(content: string, fallback = 1, tabWidth = 1): number {
+  const { amount, type } = detectIndent(content);
+  if (type === 'tab') return tabWidth;
+  return amount || fallback;
 }
 
 /**
- * Parse a unified diff and extract lines based on filter.
+ * Width of a line's indentation in columns.
  *
- * @param diff - Unified diff content
- * @param include - Which lines to include: 'additions', 'deletions', or 'both'
- * @param options - Parsing options
- * @returns Parsed lines from the diff
+ * @param line - Raw line content
+ * @param tabWidth - Columns of a tab
  */
-export function parseDiff(
-  diff: string,
-  include: 'additions' | 'deletions' | 'both' = 'additions',
-  options: ParseOptions = {}
-): ParseResult {
-  const { commentPattern = DEFAULT_COMMENT_PATTERN } = options;
-
-  const rawLines = diff.split('\n');
-  const codeLines = extractDiffCodeLines(rawLines);
-  const codeContent = codeLines.join('\n');
-
-  const { amount, type } = detectIndent(codeContent);
-  const indentUnit = type === 'tab' ? 1 : amount || 1;
-
-  const lines: ParsedLine[] = [];
-  let lineNumber = 0;
-
-  for (const line of rawLines) {
-    if (isDiffHeader(line)) continue;
-    if (!shouldIncludeLine(line, include)) continue;
-
-    const content = line.slice(1);
-    const trimmed = content.trim();
-    lineNumber++;
-
-    if (trimmed.length === 0) continue;
-    if (commentPattern !== null && commentPattern.test(content)) continue;
-
-    lines.push({
-      lineNumber,
-      depth: computeIndentDepth(content, indentUnit),
-      content: trimmed,
-    });
+export function indentWidth(line: string, tabWidth: number): number {
+  const leadingWhitespace = /^[\t ]*/.exec(line)?.[0] ?? '';
+
+  let width = 0;
+  for (const char of leadingWhitespace) {
+    width += char === '\t' ? tabWidth : 1;
   }
+  return width;
+}
 
-  return { lines, indentUnit };
+/**
+ * Compute the logical indentation depth of a line.
+ *
+ * @param line - Raw line content
+ * @param indentUnit - Number of spaces per indent level
+ * @param tabWidth - Columns of a tab. Default: one indent level
+ * @returns Logical indent depth; partial levels are rounded down
+ */
+export function computeIndentDepth(
+  line: string,
+  indentUnit: number,
+  tabWidth = indentUnit
+): number {
+  return Math.floor(indentWidth(line, tabWidth) / indentUnit);
 }
@@ -0,0 +1,155 @@
+/**
+ * File discovery for project analysis: a directory walk that honors
+ * `.gitignore` files and include/exclude globs, and per-file options.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AnalyzeOptions } from './types.js';
+import { SKIPPED_DIRECTORIES, globToRegExp } from './glob.js';
+import { detectLanguage } from './languages.js';
+
+/** Options for findProjectFiles */
+export interface ProjectFilesOptions {
+  /** Globs of files to analyze, relative to the root.
+   * Default: files with a language profile */
+  include?: string[];
+  /** Globs of files to leave out, relative to the root */
+  exclude?: string[];
+  /** Leave out files that `.gitignore` files ignore. Default: true */
+  gitignore?: boolean;
+}
+
+/** Analysis options that can differ between files of a project */
+export type ProjectAnalyzeOptions = Omit<
+  AnalyzeOptions,
+  'filename' | 'verbose' | 'includeLines' | 'blocks'
+>;
+
+/** Options for the files that match some globs */
+export interface ProjectOverride {
+  /** Globs of the files, relative to the root */
+  files: string[];
+  /** Options merged over the project's */
+  options: ProjectAnalyzeOptions;
+}
+
+/** A `.gitignore` pattern, as a regex over paths relative to the root */
+interface IgnoreRule {
+  regex: RegExp;
+  /** `!pattern`: re-includes what earlier rules ignored */
+  negated: boolean;
+  /** `pattern/`: matches directories only */
+  directoryOnly: boolean;
+}
+
+/**
+ * Parse a `.gitignore` file.
+ *
+ * @param content - Content of the file
+ * @param dir - Directory of the file, relative to the root ('' for the root)
+ */
+function parseIgnoreRules(content: string, dir: string): IgnoreRule[] {
+  return content.split(/\r?\n/).flatMap((line) => {
+    let pattern = line.trimEnd();
+    if (pattern === '' || pattern.startsWith('#')) return [];
+
+    const negated = pattern.startsWith('!');
+    if (negated) pattern = pattern.slice(1);
+    pattern = pattern.replace(/^\\(?=[#!])/, '');
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) pattern = pattern.slice(0, -1);
+
+    // A slash at the start or in the middle anchors the pattern to its
+    // directory; otherwise it matches at any depth below it
+    const anchored = pattern.includes('/');
+    const prefix = dir === '' ? '' : `${dir}/`;
+    const glob = `${prefix}${anchored ? '' : '**/'}${pattern.replace(/^\//, '')}`;
+    return [{ regex: globToRegExp(glob), negated, directoryOnly }];
+  });
+}
+
+/** The last rule that matches decides */
+function isIgnored(
+  rules: readonly IgnoreRule[],
+  relativePath: string,
+  directory: boolean
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if ((directory || !rule.directoryOnly) && rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+async function readIgnoreRules(root: string, dir: string): Promise<IgnoreRule[]> {
+  const content = await readFile(path.join(root, dir, '.gitignore'), 'utf8').catch(() => '');
+  return parseIgnoreRules(content, dir);
+}
+
+/** Ignored directories are not entered, as in git */
+async function walkProject(
+  root: string,
+  dir: string,
+  inherited: readonly IgnoreRule[],
+  gitignore: boolean
+): Promise<string[]> {
+  const rules = gitignore ? [...inherited, ...(await readIgnoreRules(root, dir))] : inherited;
+  const entries = await readdir(path.join(root, dir), { withFileTypes: true });
+
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const relativePath = dir === '' ? entry.name : `${dir}/${entry.name}`;
+      const directory = entry.isDirectory();
+      if ((!directory && !entry.isFile()) || isIgnored(rules, relativePath, directory)) return [];
+      if (!directory) return [relativePath];
+      return SKIPPED_DIRECTORIES.has(entry.name)
+        ? []
+        : walkProject(root, relativePath, rules, gitignore);
+    })
+  );
+
+  return nested.flat();
+}
+
+/**
+ * List the files of a project to analyze, skipping node_modules and .git.
+ *
+ * @param rootDir - Directory to walk
+ * @param options - Include and exclude globs, and whether to honor `.gitignore`
+ * @returns Sorted POSIX paths relative to rootDir
+ */
+export async function findProjectFiles(
+  rootDir: string,
+  options: ProjectFilesOptions = {}
+): Promise<string[]> {
+  const { include, exclude = [], gitignore = true } = options;
+  const included = include?.map((pattern) => globToRegExp(pattern));
+  const excluded = exclude.map((pattern) => globToRegExp(pattern));
+
+  const files = await walkProject(path.resolve(rootDir), '', [], gitignore);
+  return files
+    .filter((file) =>
+      included ? included.some((regex) => regex.test(file)) : detectLanguage(file) !== undefined
+    )
+    .filter((file) => !excluded.some((regex) => regex.test(file)))
+    .sort();
+}
+
+/**
+ * Options for one file of a project: the project's, with every override
+ * that matches the file merged over them in order.
+ *
+ * @param file - Path relative to the root
+ */
+export function projectFileOptions(
+  file: string,
+  options: ProjectAnalyzeOptions,
+  overrides: readonly ProjectOverride[] = []
+): ProjectAnalyzeOptions {
+  return overrides
+    .filter((override) => override.files.some((pattern) => globToRegExp(pattern).test(file)))
+    .reduce((merged, override) => ({ ...merged, ...override.options }), options);
+}
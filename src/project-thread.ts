@@ -0,0 +1,17 @@
+/**
+ * Worker thread entry for analyzeProject, built as its own file so that
+ * importing the library never listens on a thread's parentPort.
+ */
+
+import { parentPort } from 'node:worker_threads';
+import type { ProjectTask, ProjectTaskReply } from './project-worker.js';
+import { runProjectTask } from './project-worker.js';
+
+const port = parentPort;
+port?.on('message', (task: ProjectTask) => {
+  const reply = (message: ProjectTaskReply) => port.postMessage(message);
+  runProjectTask(task).then(
+    (result) => reply({ result }),
+    (error: unknown) => reply({ error: error instanceof Error ? error.message : String(error) })
+  );
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'tsup';
+import type * as Library from './index.js';
+
+// Score 6: medium by default
+const DEEP = 'a\n  b\n    c\n      d\n        e\n';
+
+// Worker threads need the built worker script, so these tests build the
+// library first and run against the build
+describe('analyzeProject on worker threads', () => {
+  let out: string;
+  let root: string;
+  let built: typeof Library;
+
+  beforeAll(async () => {
+    out = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-build-'));
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-project-'));
+    await build({
+      entry: ['src/index.ts', 'src/project-thread.ts'],
+      format: ['esm'],
+      outDir: out,
+      config: false,
+      silent: true,
+      splitting: false,
+      noExternal: [/./],
+    });
+    await fs.writeFile(path.join(out, 'package.json'), '{ "type": "module" }');
+    await Promise.all(
+      ['a.ts', 'b.py', 'c.ex'].map((file) => fs.writeFile(path.join(root, file), DEEP))
+    );
+    built = (await import(path.join(out, 'index.js'))) as typeof Library;
+  }, 60_000);
+
+  afterAll(async () => {
+    await fs.rm(out, { recursive: true, force: true });
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should not listen for tasks where the library is imported', async () => {
+    expect(await fs.readFile(path.join(out, 'index.js'), 'utf8')).not.toContain('parentPort');
+    expect(await fs.readFile(path.join(out, 'project-thread.js'), 'utf8')).toContain('parentPort');
+  });
+
+  it('should match the results of the calling thread', async () => {
+    const threaded = await built.analyzeProject(root, { workers: 2 });
+
+    expect(threaded.files.map((file) => [file.path, file.result.language])).toEqual([
+      ['a.ts', 'typescript'],
+      ['b.py', 'python'],
+    ]);
+    expect(threaded).toEqual(await built.analyzeProject(root, { workers: 0 }));
+  });
+
+  it('should analyze with custom scorers and rules on the calling thread', async () => {
+    const { files } = await built.analyzeProject(root, {
+      workers: 2,
+      scorer: { id: 'lines', score: ({ lineCount }) => lineCount },
+      rules: [{ level: 'high', when: { max: 4 } }],
+    });
+
+    expect(files.map((file) => [file.result.score, file.result.level])).toEqual([
+      [5, 'high'],
+      [5, 'high'],
+    ]);
+  });
+
+  it('should analyze files of registered languages with their profile', async () => {
+    built.registerLanguage({
+      id: 'elixir',
+      extensions: ['.ex'],
+      comments: { line: ['#'], block: [] },
+      strings: [],
+      thresholds: { medium: 7 },
+    });
+    const { files } = await built.analyzeProject(root, { workers: 2 });
+
+    expect(files.find((file) => file.path === 'c.ex')?.result).toMatchObject({
+      language: 'elixir',
+      level: 'low',
+    });
+  });
+});
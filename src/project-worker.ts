@@ -0,0 +1,116 @@
+/**
+ * Worker threads for analyzeProject (see project-thread.ts for the
+ * worker entry).
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { Worker } from 'node:worker_threads';
+import type { AnalyzeOptions, ComplexityResultVerbose } from './types.js';
+import { analyzeComplexity } from './analyze.js';
+import { mapConcurrent } from './concurrency.js';
+import { hasRegisteredLanguages } from './languages.js';
+import { hasRegisteredScorers } from './scorers.js';
+
+/** A file to analyze */
+export interface ProjectTask {
+  /** Absolute path to read */
+  path: string;
+  /** Path reported and used to select a language profile */
+  filename: string;
+  options: AnalyzeOptions;
+}
+
+/** Reply of a worker to a task */
+export type ProjectTaskReply = { result: ComplexityResultVerbose } | { error: string };
+
+/** Built next to this module; missing when running from source */
+const WORKER_URL = new URL('./project-thread.js', import.meta.url);
+
+/** Files read at once without workers */
+const READ_CONCURRENCY = 8;
+
+/**
+ * Read and analyze one file.
+ *
+ * @throws Error if the file cannot be read
+ */
+export async function runProjectTask(task: ProjectTask): Promise<ComplexityResultVerbose> {
+  const content = await readFile(task.path, 'utf8');
+  return analyzeComplexity(content, {
+    ...task.options,
+    filename: task.filename,
+    verbose: true,
+    includeLines: false,
+    blocks: false,
+  });
+}
+
+function postTask(worker: Worker, task: ProjectTask): Promise<ComplexityResultVerbose> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (reply: ProjectTaskReply) => {
+      worker.off('error', onError);
+      if ('error' in reply) reject(new Error(reply.error));
+      else resolve(reply.result);
+    };
+    const onError = (error: Error) => {
+      worker.off('message', onMessage);
+      reject(error);
+    };
+    worker.once('message', onMessage);
+    worker.once('error', onError);
+    worker.postMessage(task);
+  });
+}
+
+/**
+ * Workers see only the built-in languages and scorers, and are sent
+ * options by structured clone, which functions do not survive.
+ */
+function workersCanRun(tasks: readonly ProjectTask[]): boolean {
+  if (!existsSync(WORKER_URL) || hasRegisteredLanguages() || hasRegisteredScorers()) return false;
+  try {
+    structuredClone(tasks.map((task) => task.options));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Analyze files across worker threads, or on the calling thread when
+ * `workers` is 0, the worker script is not built, languages or scorers
+ * are registered, or the options hold functions (e.g. a custom scorer).
+ *
+ * @param tasks - Files to analyze
+ * @param workers - Maximum number of worker threads
+ * @returns Verbose results, in task order
+ * @throws Error if a file cannot be read
+ */
+export async function runProjectTasks(
+  tasks: readonly ProjectTask[],
+  workers: number
+): Promise<ComplexityResultVerbose[]> {
+  if (workers < 1 || tasks.length === 0 || !workersCanRun(tasks)) {
+    return mapConcurrent(tasks, READ_CONCURRENCY, runProjectTask);
+  }
+
+  const pool = Array.from(
+    { length: Math.min(workers, tasks.length) },
+    () => new Worker(WORKER_URL)
+  );
+  const idle = [...pool];
+  try {
+    // At most one task per worker is pending, so one is always idle
+    return await mapConcurrent(tasks, pool.length, async (task) => {
+      const worker = idle.pop() as Worker;
+      try {
+        return await postTask(worker, task);
+      } finally {
+        idle.push(worker);
+      }
+    });
+  } finally {
+    await Promise.all(pool.map((worker) => worker.terminate()));
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { analyzeProject } from './index.js';
+
+// Score 6: medium by default
+const DEEP = 'a\n  b\n    c\n      d\n        e\n';
+const FLAT = 'a\nb\nc\n';
+
+const FILES: Record<string, string> = {
+  '.gitignore': 'build/\n*.log\n!keep.log\n',
+  'src/deep.ts': DEEP,
+  'src/flat.ts': FLAT,
+  'src/notes.txt': DEEP,
+  'src/gen.ts': `// @generated\n${DEEP}`,
+  'src/vendor/.gitignore': 'lib.js\n',
+  'src/vendor/lib.js': DEEP,
+  'src/vendor/util.js': FLAT,
+  'scripts/run.py': DEEP,
+  'build/out.js': DEEP,
+  'debug.log': DEEP,
+  'keep.log': DEEP,
+  'node_modules/dep/index.js': DEEP,
+};
+
+describe('analyzeProject', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'indent-complexity-project-'));
+    await Promise.all(
+      Object.entries(FILES).map(async ([file, content]) => {
+        await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+        await fs.writeFile(path.join(root, file), content);
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should analyze files with a language profile that git does not ignore', async () => {
+    const { files } = await analyzeProject(root, { workers: 0 });
+
+    expect(files.map((file) => file.path)).toEqual([
+      'scripts/run.py',
+      'src/deep.ts',
+      'src/flat.ts',
+      'src/gen.ts',
+      'src/vendor/util.js',
+    ]);
+    expect(files[0]?.result).toMatchObject({ language: 'python', lineCount: 5 });
+  });
+
+  it('should honor include and exclude globs, and gitignore: false', async () => {
+    const { files } = await analyzeProject(root, {
+      workers: 0,
+      include: ['**/*.log', 'src/**'],
+      exclude: ['src/vendor/**', '**/gen.ts'],
+      gitignore: false,
+    });
+
+    expect(files.map((file) => file.path)).toEqual([
+      'debug.log',
+      'keep.log',
+      'src/deep.ts',
+      'src/flat.ts',
+      'src/notes.txt',
+    ]);
+  });
+
+  it('should merge matching overrides over the options', async () => {
+    const { files } = await analyzeProject(root, {
+      workers: 0,
+      include: ['src/*.ts'],
+      thresholds: { medium: 8 },
+      overrides: [
+        { files: ['src/deep.ts'], options: { thresholds: { medium: 5, high: 20 } } },
+        { files: ['**/*.ts'], options: { contentChecks: false } },
+      ],
+    });
+
+    expect(files.map((file) => [file.path, file.result.level])).toEqual([
+      ['src/deep.ts', 'medium'],
+      ['src/flat.ts', 'low'],
+      ['src/gen.ts', 'low'],
+    ]);
+    expect(files[2]?.result.skipped).toBeUndefined();
+  });
+
+  it('should summarize the analyzed files', async () => {
+    const { summary } = await analyzeProject(root, { workers: 0, top: 2 });
+
+    expect(summary).toMatchObject({
+      fileCount: 4,
+      skippedFiles: 1,
+      lineCount: 16,
+      score: 60 / 16,
+      levels: { medium: 2, low: 2 },
+    });
+    expect(summary.worst.map((file) => file.path)).toEqual(['scripts/run.py', 'src/deep.ts']);
+  });
+
+  it('should reject unregistered languages', async () => {
+    await expect(analyzeProject(root, { workers: 0, language: 'cobol' })).rejects.toThrow();
+  });
+});
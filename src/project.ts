@@ -0,0 +1,132 @@
+/**
+ * Project-wide analysis: every file of a directory tree, with a summary.
+ */
+
+import { availableParallelism } from 'node:os';
+import path from 'node:path';
+import type { ComplexityResultVerbose } from './types.js';
+import type {
+  ProjectAnalyzeOptions,
+  ProjectFilesOptions,
+  ProjectOverride,
+} from './project-files.js';
+import { findProjectFiles, projectFileOptions } from './project-files.js';
+import { runProjectTasks } from './project-worker.js';
+
+/** Options for analyzeProject */
+export interface ProjectOptions extends ProjectAnalyzeOptions, ProjectFilesOptions {
+  /** Options for some files, merged over the rest in order */
+  overrides?: ProjectOverride[];
+  /** Worker threads analyzing files; 0 analyzes them on the calling
+   * thread, as do registered languages or scorers and custom scorer
+   * objects. Default: one less than the available parallelism */
+  workers?: number;
+  /** Number of files in `summary.worst`. Default: 10 */
+  top?: number;
+}
+
+/** Complexity of one file of a project */
+export interface ProjectFileResult {
+  /** POSIX path relative to the root */
+  path: string;
+  result: ComplexityResultVerbose;
+}
+
+/** Totals over the files of a project */
+export interface ProjectSummary {
+  /** Files analyzed, not counting skipped ones */
+  fileCount: number;
+  /** Files skipped by content checks */
+  skippedFiles: number;
+  /** Lines measured across the analyzed files */
+  lineCount: number;
+  /** File scores averaged with their line counts as weights */
+  score: number;
+  /** Number of analyzed files at each level */
+  levels: Record<string, number>;
+  /** Highest-scoring files, worst first */
+  worst: ProjectFileResult[];
+}
+
+/** Result of analyzeProject */
+export interface ProjectResult {
+  /** One entry per file, sorted by path */
+  files: ProjectFileResult[];
+  summary: ProjectSummary;
+}
+
+const DEFAULT_TOP = 10;
+
+function summarize(files: ProjectFileResult[], top: number): ProjectSummary {
+  const analyzed = files.filter((file) => file.result.skipped === undefined);
+  const lineCount = analyzed.reduce((sum, file) => sum + file.result.lineCount, 0);
+  const weighted = analyzed.reduce(
+    (sum, file) => sum + file.result.score * file.result.lineCount,
+    0
+  );
+
+  const levels: Record<string, number> = {};
+  for (const { result } of analyzed) levels[result.level] = (levels[result.level] ?? 0) + 1;
+
+  return {
+    fileCount: analyzed.length,
+    skippedFiles: files.length - analyzed.length,
+    lineCount,
+    score: lineCount === 0 ? 0 : weighted / lineCount,
+    levels,
+    worst: [...analyzed].sort((a, b) => b.result.score - a.result.score).slice(0, top),
+  };
+}
+
+/**
+ * Analyze every file of a directory tree.
+ *
+ * Files are found by walking `rootDir`, honoring `.gitignore` files and
+ * the `include` and `exclude` globs; by default, those with a language
+ * profile are analyzed. Each file gets the project's options with the
+ * matching `overrides` merged over them, and is analyzed on one of the
+ * worker threads.
+ *
+ * @example
+ * ```typescript
+ * const { summary } = await analyzeProject('.', {
+ *   exclude: ['**\/*.test.ts'],
+ *   overrides: [{ files: ['scripts/**'], options: { thresholds: { high: 14 } } }],
+ * });
+ * console.log(summary.score, summary.levels, summary.worst[0]?.path);
+ * ```
+ *
+ * @returns Verbose results per file, and the project summary
+ * @throws Error if a file cannot be read, or a language id is not registered
+ */
+export async function analyzeProject(
+  rootDir: string,
+  options: ProjectOptions = {}
+): Promise<ProjectResult> {
+  const {
+    include,
+    exclude,
+    gitignore,
+    overrides,
+    workers = availableParallelism() - 1,
+    top = DEFAULT_TOP,
+    ...analyzeOptions
+  } = options;
+  const root = path.resolve(rootDir);
+  const paths = await findProjectFiles(root, { include, exclude, gitignore });
+
+  const results = await runProjectTasks(
+    paths.map((file) => ({
+      path: path.join(root, file),
+      filename: file,
+      options: projectFileOptions(file, analyzeOptions, overrides),
+    })),
+    workers
+  );
+
+  const files = paths.map((file, i) => ({
+    path: file,
+    result: results[i] as ComplexityResultVerbose,
+  }));
+  return { files, summary: summarize(files, top) };
+}
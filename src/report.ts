@@ -0,0 +1,224 @@
+/**
+ * Plain-text and JSON rendering of analysis results.
+ */
+
+import type {
+  ComplexityResult,
+  ComplexityResultVerbose,
+  ComplexityResultWithLines,
+  DiffFileStatus,
+} from './types.js';
+import type { SarifEntry } from './sarif.js';
+import type { BaselineRegression } from './baseline.js';
+import type { LevelScale } from './assessment.js';
+import { toSarif } from './sarif.js';
+import { levelReaches } from './assessment.js';
+
+/** Supported output formats */
+export const REPORT_FORMATS = ['table', 'json', 'csv', 'sarif'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** One row of a report */
+export interface ReportEntry {
+  /** File path ('' for input without a path) */
+  path: string;
+  /** Diff status, when the entry comes from a diff */
+  status?: DiffFileStatus;
+  /** Result on the low / medium / high scale, or on custom `levels` */
+  result: ComplexityResult<string>;
+  /** How the entry got worse than its baseline, in baseline checks */
+  regressions?: BaselineRegression[];
+}
+
+/** Entries plus an optional aggregate row */
+export interface Report {
+  files: ReportEntry[];
+  aggregate?: ComplexityResult;
+}
+
+interface Column {
+  header: string;
+  value: (entry: ReportEntry) => string;
+  alignRight?: boolean;
+}
+
+function verboseValue(
+  result: ComplexityResult<string>,
+  pick: (verbose: ComplexityResultVerbose<string>) => number,
+  digits = 0
+): string {
+  return 'max' in result ? pick(result as ComplexityResultVerbose<string>).toFixed(digits) : '';
+}
+
+function describeRegressions(regressions: BaselineRegression[] = []): string {
+  return regressions
+    .map((r) => {
+      const digits = r.metric === 'score' ? 2 : 0;
+      const change = `${r.metric} ${r.baseline.toFixed(digits)} -> ${r.current.toFixed(digits)}`;
+      return r.block === undefined ? change : `${r.block}: ${change}`;
+    })
+    .join('; ');
+}
+
+const FILE_COLUMN: Column = { header: 'File', value: (e) => e.path || '(input)' };
+
+const STATUS_COLUMN: Column = { header: 'Status', value: (e) => e.status ?? '' };
+
+const SCORE_COLUMNS: Column[] = [
+  { header: 'Score', value: (e) => e.result.score.toFixed(2), alignRight: true },
+  {
+    header: 'Level',
+    value: (e) => (e.result.skipped ? `skipped (${e.result.skipped})` : e.result.level),
+  },
+];
+
+/** Statistics of verbose results */
+const VERBOSE_COLUMNS: Column[] = [
+  { header: 'Lines', value: (e) => verboseValue(e.result, (r) => r.lineCount), alignRight: true },
+  { header: 'Max', value: (e) => verboseValue(e.result, (r) => r.max), alignRight: true },
+  { header: 'Mean', value: (e) => verboseValue(e.result, (r) => r.mean, 2), alignRight: true },
+  {
+    header: 'Variance',
+    value: (e) => verboseValue(e.result, (r) => r.variance, 2),
+    alignRight: true,
+  },
+];
+
+const REGRESSIONS_COLUMN: Column = {
+  header: 'Regressions',
+  value: (e) => describeRegressions(e.regressions),
+};
+
+/** Status and regressions show only when some entry has them */
+function buildColumns(report: Report, verbose: boolean): Column[] {
+  const hasStatus = report.files.some((e) => e.status !== undefined);
+  const hasRegressions = report.files.some((e) => e.regressions !== undefined);
+
+  return [
+    FILE_COLUMN,
+    ...(hasStatus ? [STATUS_COLUMN] : []),
+    ...SCORE_COLUMNS,
+    ...(verbose ? VERBOSE_COLUMNS : []),
+    ...(hasRegressions ? [REGRESSIONS_COLUMN] : []),
+  ];
+}
+
+/**
+ * Align rows of cells into text columns.
+ *
+ * @param rows - Header row, then data rows
+ * @param alignRight - Columns to pad on the left
+ * @returns Table text, terminated by a newline
+ */
+export function alignRows(rows: string[][], alignRight: boolean[] = []): string {
+  const widths = (rows[0] ?? []).map((_, i) =>
+    Math.max(...rows.map((row) => (row[i] ?? '').length))
+  );
+
+  const lines = rows.map((row) =>
+    row
+      .map((cell, i) => {
+        const width = widths[i] ?? 0;
+        return alignRight[i] ? cell.padStart(width) : cell.padEnd(width);
+      })
+      .join('  ')
+      .trimEnd()
+  );
+
+  return `${lines.join('\n')}\n`;
+}
+
+function withAggregate(report: Report): ReportEntry[] {
+  const entries = [...report.files];
+  if (report.aggregate) entries.push({ path: 'Total', result: report.aggregate });
+  return entries;
+}
+
+/**
+ * Render a report as an aligned text table.
+ *
+ * @param report - Entries to render, with an optional aggregate row
+ * @param verbose - Add line count, max, mean and variance columns
+ * @returns Table text, terminated by a newline
+ */
+export function formatTable(report: Report, verbose = false): string {
+  const columns = buildColumns(report, verbose);
+  const rows = [
+    columns.map((c) => c.header),
+    ...withAggregate(report).map((entry) => columns.map((c) => c.value(entry))),
+  ];
+
+  return alignRows(
+    rows,
+    columns.map((c) => c.alignRight ?? false)
+  );
+}
+
+/**
+ * Quote a CSV field when it needs it (RFC 4180).
+ */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Render a report as CSV, with the columns of the table.
+ */
+export function formatCsv(report: Report, verbose = false): string {
+  const columns = buildColumns(report, verbose);
+  const rows = [
+    columns.map((c) => c.header),
+    ...withAggregate(report).map((entry) => columns.map((c) => c.value(entry))),
+  ];
+
+  return rows.map((row) => `${row.map(csvField).join(',')}\r\n`).join('');
+}
+
+/**
+ * Render a report as pretty-printed JSON.
+ */
+export function formatJson(report: Report): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Render a report as a SARIF 2.1.0 log.
+ *
+ * Entries analyzed without line details are located at line 1 of their
+ * file; entries without a path have no locations.
+ */
+export function formatSarif(report: Report): string {
+  const entries: SarifEntry[] = report.files.map((entry) => {
+    const result = entry.result as ComplexityResultWithLines;
+    return {
+      ...(entry.path === '' ? {} : { path: entry.path }),
+      result: { ...result, lines: result.lines ?? [] },
+    };
+  });
+
+  return `${JSON.stringify(toSarif(entries), null, 2)}\n`;
+}
+
+/**
+ * Render a report in the given format.
+ */
+export function formatReport(report: Report, format: ReportFormat, verbose = false): string {
+  if (format === 'json') return formatJson(report);
+  if (format === 'csv') return formatCsv(report, verbose);
+  if (format === 'sarif') return formatSarif(report);
+  return formatTable(report, verbose);
+}
+
+/**
+ * Check whether any entry of a report reaches a level (see levelReaches:
+ * the CLI's `--fail-on high` also applies to the last level of a custom
+ * scale).
+ *
+ * @param levels - Scale of the results. Default: low / medium / high
+ */
+export function reachesLevel(report: Report, level: string, levels?: LevelScale<string>): boolean {
+  if (level === 'none') return false;
+  return report.files.some((entry) => levelReaches(entry.result.level, level, levels));
+}
@@ -3,62 +3,130 @@
  */
 
 import type {
+  ComplexityLevel,
   ComplexityResult,
   ComplexityResultVerbose,
   ComplexityResultWithLines,
   LineDetail,
-  ParsedLine,
-  Thresholds,
 } from './types.js';
+import type { ParsedLine } from './parser.js';
+import type { ScoreOptions } from './assessment.js';
 import { computeStatistics, buildHistogram } from './statistics.js';
-import { assessComplexity, resolveThresholds } from './assessment.js';
+import { assessDepths } from './assessment.js';
 
-interface BuildResultOptions {
+interface BuildResultOptions<L extends string = ComplexityLevel> extends ScoreOptions<L> {
   verbose: boolean;
   includeLines: boolean;
-  userThresholds?: Partial<Thresholds>;
+  /** Percentiles of depth to report. Default: DEFAULT_PERCENTILES */
+  percentiles?: readonly number[];
+  /** Language profile: its thresholds apply under the user's, its id is reported */
+  language?: { id: string; thresholds?: ScoreOptions['userThresholds'] };
+  /** Lines left out by content checks, reported when any */
+  excludedLines?: number;
 }
 
-export function buildResult(
-  lines: ParsedLine[],
-  options: BuildResultOptions
-): ComplexityResult | ComplexityResultVerbose | ComplexityResultWithLines {
-  const { verbose, includeLines, userThresholds } = options;
-
-  const depths = lines.map((l) => l.depth);
-  const stats = computeStatistics(depths);
-  const thresholds = resolveThresholds(userThresholds);
-  const assessment = assessComplexity(stats.score, thresholds);
-
-  const result: ComplexityResult = {
-    score: stats.score,
-    level: assessment.level,
-    reason: assessment.reason,
-  };
+function toLineDetail(l: ParsedLine): LineDetail {
+  const detail: LineDetail = { line: l.lineNumber, depth: l.depth, content: l.content };
+  if (l.file !== undefined) detail.file = l.file;
+  if (l.side !== undefined) detail.side = l.side;
+  if (l.hunk !== undefined) detail.hunk = l.hunk;
+  return detail;
+}
 
-  if (!verbose && !includeLines) {
-    return result;
-  }
+/**
+ * Lines that count toward the statistics: all but skipped string bodies
+ * and suppressed lines.
+ */
+export function measuredLines(lines: ParsedLine[]): ParsedLine[] {
+  return lines.filter((l) => l.stringBody !== 'skip' && !l.suppressed);
+}
+
+/** Statistics of the measured lines, however they were collected */
+export interface ResultSummary {
+  stats: ReturnType<typeof computeStatistics>;
+  depthHistogram: Record<number, number>;
+  /** Number of measured lines */
+  lineCount: number;
+  /** Lines inside multi-line strings that were skipped or pinned */
+  excludedStringLines: number;
+  /** Lines left out by directives. Default: 0 */
+  suppressedLines?: number;
+}
+
+/**
+ * Build a verbose result from precomputed statistics (e.g. collected from
+ * a stream).
+ */
+export function buildSummaryResult<L extends string = ComplexityLevel>(
+  summary: ResultSummary,
+  options: Omit<BuildResultOptions<L>, 'verbose' | 'includeLines'>,
+  depths?: number[]
+): ComplexityResultVerbose<L> {
+  const { stats } = summary;
 
-  const verboseResult: ComplexityResultVerbose = {
-    ...result,
-    lineCount: lines.length,
+  const result: ComplexityResultVerbose<L> = {
+    ...assessDepths(summary.depthHistogram, depths, options),
+    lineCount: summary.lineCount,
     max: stats.max,
     variance: stats.variance,
     mean: stats.mean,
     stdDev: stats.stdDev,
     median: stats.median,
     sum: stats.sum,
-    depthHistogram: buildHistogram(depths),
+    skewness: stats.skewness,
+    kurtosis: stats.kurtosis,
+    percentiles: stats.percentiles,
+    entropy: stats.entropy,
+    depthHistogram: summary.depthHistogram,
+    excludedStringLines: summary.excludedStringLines,
+    suppressedLines: summary.suppressedLines ?? 0,
   };
+  if (options.language) result.language = options.language.id;
+  if (options.thresholdOverrides) result.thresholdOverrides = options.thresholdOverrides;
+  if (options.excludedLines) result.excludedLines = options.excludedLines;
+
+  return result;
+}
+
+export function buildResult<L extends string = ComplexityLevel>(
+  lines: ParsedLine[],
+  options: BuildResultOptions<L> & { verbose: true }
+): ComplexityResultVerbose<L>;
+
+export function buildResult<L extends string = ComplexityLevel>(
+  lines: ParsedLine[],
+  options: BuildResultOptions<L>
+): ComplexityResult<L> | ComplexityResultVerbose<L> | ComplexityResultWithLines<L>;
+
+export function buildResult<L extends string>(
+  lines: ParsedLine[],
+  options: BuildResultOptions<L>
+): ComplexityResult<L> | ComplexityResultVerbose<L> | ComplexityResultWithLines<L> {
+  const { verbose, includeLines } = options;
+
+  const measured = measuredLines(lines);
+  const depths = measured.map((l) => l.depth);
+  const depthHistogram = buildHistogram(depths);
+
+  if (!verbose && !includeLines) {
+    return assessDepths(depthHistogram, depths, options);
+  }
+
+  const verboseResult = buildSummaryResult(
+    {
+      stats: computeStatistics(depths, options.percentiles),
+      depthHistogram,
+      lineCount: measured.length,
+      excludedStringLines: lines.filter((l) => l.stringBody !== undefined && !l.suppressed).length,
+      suppressedLines: lines.filter((l) => l.suppressed).length,
+    },
+    options,
+    depths
+  );
 
   if (includeLines) {
-    const lineDetails: LineDetail[] = lines.map((l) => ({
-      line: l.lineNumber,
-      depth: l.depth,
-      content: l.content,
-    }));
-    return { ...verboseResult, lines: lineDetails } as ComplexityResultWithLines;
+    const lineDetails: LineDetail[] = measured.map(toLineDetail);
+    return { ...verboseResult, lines: lineDetails } as ComplexityResultWithLines<L>;
   }
 
   return verboseResult;
@@ -0,0 +1,93 @@
+import { Readable } from 'node:stream';
+import { describe, it, expect } from 'vitest';
+import { analyzeComplexity, analyzeComplexityStream } from './index.js';
+import type { AssessmentRule } from './index.js';
+
+// A long, flat file with one pyramid nested 9 deep
+const PYRAMID = Array.from({ length: 10 }, (_, depth) => `${'  '.repeat(depth)}step();`);
+const FLAT_WITH_PYRAMID = [...Array.from({ length: 390 }, () => 'call();'), ...PYRAMID].join('\n');
+
+const DEEP_OR_COMPLEX: AssessmentRule = { level: 'high', when: { max: 7, score: 10 } };
+
+describe('assessment rules', () => {
+  it('should raise the level when a rule fires, naming the rule', () => {
+    const plain = analyzeComplexity(FLAT_WITH_PYRAMID);
+    const result = analyzeComplexity(FLAT_WITH_PYRAMID, { rules: [DEEP_OR_COMPLEX] });
+
+    expect(plain.level).toBe('low');
+    expect(result.level).toBe('high');
+    expect(result.reason).toBe('Rule "max ≥ 7 or score ≥ 10" fired: max 9 ≥ 7');
+    expect(result.score).toBe(plain.score);
+  });
+
+  it('should report the rule name when one is given', () => {
+    const result = analyzeComplexity(FLAT_WITH_PYRAMID, {
+      rules: [{ ...DEEP_OR_COMPLEX, name: 'pyramid' }],
+    });
+
+    expect(result.reason).toBe('Rule "pyramid" fired: max 9 ≥ 7');
+  });
+
+  it('should fire rules with match "all" only when every condition holds', () => {
+    const rule = { level: 'medium', when: { max: 7, lineCount: 500 }, match: 'all' } as const;
+
+    expect(analyzeComplexity(FLAT_WITH_PYRAMID, { rules: [rule] }).level).toBe('low');
+    expect(
+      analyzeComplexity(FLAT_WITH_PYRAMID, {
+        rules: [{ ...rule, when: { max: 7, lineCount: 400 } }],
+      }).reason
+    ).toBe('Rule "max ≥ 7 and lineCount ≥ 400" fired: max 9 ≥ 7, lineCount 400 ≥ 400');
+  });
+
+  it('should test variance and percentiles of depth', () => {
+    const spread = 'a\n  b\n    c\n      d\n        e\n';
+
+    expect(
+      analyzeComplexity(spread, { rules: [{ level: 'high', when: { p90: 3.5 } }] })
+    ).toMatchObject({ level: 'high', reason: 'Rule "p90 ≥ 3.5" fired: p90 3.6 ≥ 3.5' });
+    expect(
+      analyzeComplexity(spread, { rules: [{ level: 'high', when: { variance: 2 } }] }).level
+    ).toBe('high');
+  });
+
+  it('should keep the more severe level from the score', () => {
+    const deep = 'a\n  b\n    c\n      d\n        e\n          f\n            g\n';
+    const result = analyzeComplexity(deep, { rules: [{ level: 'medium', when: { max: 1 } }] });
+
+    expect(result.level).toBe('high');
+    expect(result.reason).toContain('high threshold');
+  });
+
+  it('should apply rules on custom levels and to blocks', () => {
+    const levels = [
+      { name: 'ok' },
+      { name: 'watch', threshold: 4 },
+      { name: 'blocker', threshold: 20 },
+    ] as const;
+    const result = analyzeComplexity(`function run() {\n${FLAT_WITH_PYRAMID}\n}`, {
+      levels,
+      rules: [{ level: 'blocker', when: { max: 8 } }],
+      blocks: true,
+    });
+
+    expect(result.level).toBe('blocker');
+    expect(result.blocks[0]?.level).toBe('blocker');
+  });
+
+  it('should apply rules to streamed results', async () => {
+    const result = await analyzeComplexityStream(Readable.from([FLAT_WITH_PYRAMID]), {
+      rules: [DEEP_OR_COMPLEX],
+    });
+
+    expect(result.level).toBe('high');
+  });
+
+  it('should reject unknown metrics and levels', () => {
+    expect(() =>
+      analyzeComplexity('a\n  b', { rules: [{ level: 'blocker' as 'high', when: { max: 1 } }] })
+    ).toThrow('Rule level blocker is not on the scale');
+    expect(() =>
+      analyzeComplexity('a\n  b', { rules: [{ level: 'high', when: { depth: 1 } as never }] })
+    ).toThrow('Unknown rule metric: depth');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Assessment rules: raise a result's level when metrics other than the
+ * score reach their limits, e.g. one deeply nested region in a long, flat
+ * file whose average stays low.
+ */
+
+import type { ComplexityLevel } from './types.js';
+import { computeHistogramStatistics } from './statistics.js';
+
+/** Metric a rule tests. `p90` is the 90th percentile of depth. */
+export type RuleMetric = 'score' | 'max' | 'variance' | 'lineCount' | `p${number}`;
+
+/** A rule assigning a level when metrics reach their limits */
+export interface AssessmentRule<L extends string = ComplexityLevel> {
+  /** Name given in the reason. Default: the conditions, e.g. "max ≥ 7 or score ≥ 10" */
+  name?: string;
+  /** Level the rule assigns when it fires */
+  level: L;
+  /** Lower limits: a condition holds when its metric is at or above the limit */
+  when: Partial<Record<RuleMetric, number>>;
+  /** Fire when any condition holds, or only when all of them do. Default: 'any' */
+  match?: 'any' | 'all';
+}
+
+/** Values of the rule metrics for measured lines */
+export interface RuleMetrics {
+  score: number;
+  max: number;
+  variance: number;
+  lineCount: number;
+  percentiles: Record<number, number>;
+}
+
+const PERCENTILE_METRIC = /^p(\d+(?:\.\d+)?)$/;
+
+/** Percentile read by a metric, if it is one */
+function metricPercentile(metric: string): number | undefined {
+  const match = PERCENTILE_METRIC.exec(metric);
+  return match ? Number(match[1]) : undefined;
+}
+
+function metricValue(metrics: RuleMetrics, metric: string): number {
+  const percentile = metricPercentile(metric);
+  if (percentile !== undefined) return metrics.percentiles[percentile] ?? 0;
+  if (metric === 'score' || metric === 'max' || metric === 'variance' || metric === 'lineCount') {
+    return metrics[metric];
+  }
+  throw new RangeError(`Unknown rule metric: ${metric}`);
+}
+
+function formatValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** Conditions of a rule, as [metric, limit] pairs */
+function conditions(rule: AssessmentRule<string>): [string, number][] {
+  return Object.entries(rule.when).filter(
+    (entry): entry is [string, number] => entry[1] !== undefined
+  );
+}
+
+/**
+ * Describe a rule by its conditions, e.g. "max ≥ 7 or score ≥ 10".
+ */
+export function describeRule(rule: AssessmentRule<string>): string {
+  const joiner = rule.match === 'all' ? ' and ' : ' or ';
+  return conditions(rule)
+    .map(([metric, limit]) => `${metric} ≥ ${formatValue(limit)}`)
+    .join(joiner);
+}
+
+/**
+ * Compute the metrics that rules test for a histogram of depths.
+ *
+ * @param histogram - Measured lines by depth
+ * @param score - Score from the result's scorer
+ * @param rules - Rules whose percentile metrics are computed
+ */
+export function ruleMetrics(
+  histogram: Record<number, number>,
+  score: number,
+  rules: readonly AssessmentRule<string>[]
+): RuleMetrics {
+  const percentiles = rules.flatMap((rule) =>
+    Object.keys(rule.when).flatMap((metric) => metricPercentile(metric) ?? [])
+  );
+  const stats = computeHistogramStatistics(histogram, [...new Set(percentiles)]);
+  const lineCount = Object.values(histogram).reduce((acc, count) => acc + count, 0);
+
+  return {
+    score,
+    max: stats.max,
+    variance: stats.variance,
+    lineCount,
+    percentiles: stats.percentiles,
+  };
+}
+
+/**
+ * Apply rules over an assessment. A rule that fires replaces the level when
+ * its level is more severe; among rules of the same level the first wins.
+ *
+ * @param assessment - Level and reason from the score
+ * @param metrics - Metrics of the measured lines
+ * @param options - Rules, and the level names from least to most severe
+ * @returns The most severe level, with the reason naming the rule that set it
+ * @throws RangeError for unknown metrics and levels
+ */
+export function applyRules<L extends string>(
+  assessment: { level: L; reason: string },
+  metrics: RuleMetrics,
+  options: { rules: readonly AssessmentRule<L>[]; levels: readonly L[] }
+): { level: L; reason: string } {
+  const severity = (level: L): number => {
+    const index = options.levels.indexOf(level);
+    if (index === -1) throw new RangeError(`Rule level ${level} is not on the scale`);
+    return index;
+  };
+
+  let result = assessment;
+  for (const rule of options.rules) {
+    const rank = severity(rule.level);
+    const all = conditions(rule);
+    const held = all.filter(([metric, limit]) => metricValue(metrics, metric) >= limit);
+    const fired = held.length > 0 && (rule.match !== 'all' || held.length === all.length);
+    if (!fired || rank <= severity(result.level)) continue;
+
+    const values = held.map(
+      ([metric, limit]) =>
+        `${metric} ${formatValue(metricValue(metrics, metric))} ≥ ${formatValue(limit)}`
+    );
+    result = {
+      level: rule.level,
+      reason: `Rule "${rule.name ?? describeRule(rule)}" fired: ${values.join(', ')}`,
+    };
+  }
+  return result;
+}
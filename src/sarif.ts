@@ -0,0 +1,238 @@
+/**
+ * SARIF 2.1.0 output for code-scanning integrations.
+ *
+ * Each analyzed file becomes one SARIF result whose rule id encodes the
+ * complexity level, located at the deepest nested lines.
+ */
+
+import type { ComplexityLevel, ComplexityResultWithLines, LineDetail } from './types.js';
+import type { LevelScale } from './assessment.js';
+import { DEFAULT_LEVELS, levelReaches, levelSeverity } from './assessment.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/itaymendel/indent-complexity';
+
+/** SARIF severity for each complexity level */
+const SARIF_LEVELS: Record<ComplexityLevel, SarifLevel> = {
+  low: 'note',
+  medium: 'warning',
+  high: 'error',
+};
+
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifRegion {
+  startLine: number;
+  endLine: number;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region: SarifRegion;
+  };
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  /** Left out for results without a file path to point to */
+  locations?: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  properties: { score: number; max: number; lineCount: number };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: { name: string; version?: string; informationUri: string; rules: SarifRule[] };
+    };
+    results: SarifResult[];
+  }[];
+}
+
+/** A result to report, with the file it belongs to */
+export interface SarifEntry {
+  /** File path; falls back to each line's `file` for diff results */
+  path?: string;
+  result: ComplexityResultWithLines<string>;
+}
+
+export interface SarifOptions {
+  /** Scale the results were analyzed with (see `levels`). Its first level
+   * maps to 'note', its last to 'error' and the rest to 'warning'.
+   * Default: low / medium / high */
+  levels?: LevelScale<string>;
+  /** Lowest level to report; 'medium' also stands for the levels between
+   * the first and last of a custom scale. Default: 'medium' */
+  minLevel?: string;
+  /** Maximum number of deepest blocks to locate per result. Default: 5 */
+  maxRegions?: number;
+  /** Tool version recorded in the run */
+  toolVersion?: string;
+}
+
+interface DeepestBlock {
+  uri: string;
+  region: SarifRegion;
+}
+
+/**
+ * SARIF rule id for a complexity level.
+ */
+export function sarifRuleId(level: string): string {
+  return `indent-complexity/${level}`;
+}
+
+/** SARIF severity of a level of a scale; SARIF's default for levels not on it */
+function sarifLevel(level: string, levels: LevelScale<string>): SarifLevel {
+  const severity = levelSeverity(level, levels);
+  return severity === undefined ? 'warning' : SARIF_LEVELS[severity];
+}
+
+function buildRules(levels: LevelScale<string>): SarifRule[] {
+  return levels.map(({ name }) => ({
+    id: sarifRuleId(name),
+    name: `${name[0]?.toUpperCase()}${name.slice(1)}IndentComplexity`,
+    shortDescription: { text: `Indentation complexity is ${name}` },
+    defaultConfiguration: { level: sarifLevel(name, levels) },
+  }));
+}
+
+/**
+ * Group consecutive lines at the maximum depth into blocks.
+ *
+ * Diff lines only join a block within the same file and hunk. Deleted
+ * lines are ignored: they do not exist in the file being scanned.
+ */
+function findDeepestBlocks(entry: SarifEntry): DeepestBlock[] {
+  const { lines, max } = entry.result;
+  const blocks: DeepestBlock[] = [];
+  let previous: LineDetail | undefined;
+
+  for (const line of lines) {
+    const uri = entry.path ?? line.file ?? '';
+    const isDeepest = line.depth === max && line.side !== 'old' && uri !== '';
+    const last = blocks.at(-1);
+    const continuesBlock =
+      previous !== undefined && previous.file === line.file && previous.hunk === line.hunk;
+
+    if (isDeepest && continuesBlock && last) {
+      last.region.endLine = line.line;
+    } else if (isDeepest) {
+      blocks.push({ uri, region: { startLine: line.line, endLine: line.line } });
+    }
+    previous = isDeepest ? line : undefined;
+  }
+
+  return blocks;
+}
+
+function toLocation(block: DeepestBlock, depth: number): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: block.uri },
+      region: block.region,
+    },
+    message: { text: `Nesting depth ${depth}` },
+  };
+}
+
+/**
+ * The start of the file, for results whose deepest lines cannot be
+ * located: deletions, or results without line details. Undefined when
+ * there is no path to point to.
+ */
+function fileLocation(entry: SarifEntry): SarifLocation | undefined {
+  const uri = entry.path ?? entry.result.lines.find((line) => line.file !== undefined)?.file;
+  if (uri === undefined || uri === '') return undefined;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri },
+      region: { startLine: 1, endLine: 1 },
+    },
+  };
+}
+
+function toSarifResult(
+  entry: SarifEntry,
+  maxRegions: number,
+  levels: LevelScale<string>
+): SarifResult {
+  const { result } = entry;
+  const blocks = findDeepestBlocks(entry).slice(0, maxRegions);
+  const locations =
+    blocks.length === 0
+      ? [fileLocation(entry)].filter((location) => location !== undefined)
+      : blocks.map((block) => toLocation(block, result.max));
+
+  const sarifResult: SarifResult = {
+    ruleId: sarifRuleId(result.level),
+    level: sarifLevel(result.level, levels),
+    message: { text: result.reason },
+    properties: { score: result.score, max: result.max, lineCount: result.lineCount },
+  };
+
+  if (locations.length > 0) {
+    sarifResult.locations = locations.slice(0, 1);
+  }
+  if (locations.length > 1) {
+    sarifResult.relatedLocations = locations.slice(1);
+  }
+
+  return sarifResult;
+}
+
+/**
+ * Convert complexity results into a SARIF 2.1.0 log.
+ *
+ * Results need line details (`includeLines: true`) so the deepest lines
+ * can be located. Consecutive lines at the maximum depth are reported as
+ * one region: the first is the primary location, the rest are related.
+ * A result whose deepest lines were all deleted, or that has no line
+ * details, is located at line 1 of its file; one without a path has no
+ * locations.
+ *
+ * @example
+ * ```typescript
+ * const result = analyzeComplexity(code, { includeLines: true });
+ * const log = toSarif([{ path: 'src/app.ts', result }]);
+ * await writeFile('complexity.sarif', JSON.stringify(log));
+ * ```
+ */
+export function toSarif(entries: SarifEntry[], options: SarifOptions = {}): SarifLog {
+  const { levels = DEFAULT_LEVELS, minLevel = 'medium', maxRegions = 5, toolVersion } = options;
+
+  const results = entries
+    .filter((entry) => levelReaches(entry.result.level, minLevel, levels))
+    .map((entry) => toSarifResult(entry, maxRegions, levels));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'indent-complexity',
+            ...(toolVersion === undefined ? {} : { version: toolVersion }),
+            informationUri: INFORMATION_URI,
+            rules: buildRules(levels),
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
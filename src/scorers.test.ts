@@ -0,0 +1,126 @@
+import { Readable } from 'node:stream';
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeComplexity,
+  analyzeComplexityStream,
+  createIncrementalAnalyzer,
+  listScorers,
+  registerScorer,
+} from './index.js';
+import type { ScorerInput } from './index.js';
+
+describe('scorers', () => {
+  // Depths 0, 1, 2, 3
+  const nested = 'a\n  b\n    c\n      d\n';
+  // Depths 0, 1, 2, 3, 4
+  const deeper = 'a\n  b\n    c\n      d\n        e\n';
+
+  it('should score with the squared scorer by default and record it', () => {
+    const result = analyzeComplexity(nested);
+
+    expect(result.scorer).toBe('squared');
+    expect(result.score).toBe(3.5);
+  });
+
+  it('should score with the built-in scorers by name', () => {
+    const score = (scorer: string) => analyzeComplexity(nested, { scorer }).score;
+
+    expect(score('linear')).toBe(1.5);
+    expect(score('exponential')).toBe(2.75);
+    expect(score('variance')).toBe(1.25);
+    expect(listScorers().map((s) => s.id)).toEqual([
+      'squared',
+      'linear',
+      'exponential',
+      'variance',
+    ]);
+  });
+
+  it("should assess with the scorer's thresholds, under the user's", () => {
+    const exponential = analyzeComplexity(deeper, { scorer: 'exponential' });
+
+    expect(exponential).toMatchObject({ score: 5.2, level: 'medium' });
+    expect(exponential.reason).toContain('medium threshold (3)');
+    expect(analyzeComplexity(nested, { scorer: 'linear' }).level).toBe('low');
+    expect(analyzeComplexity(nested, { scorer: 'linear', thresholds: { medium: 1 } }).level).toBe(
+      'medium'
+    );
+  });
+
+  it("should replace the language profile's thresholds with the scorer's", () => {
+    // YAML thresholds: medium 6, high 14
+    expect(analyzeComplexity(deeper, { filename: 'a.yaml' }).level).toBe('medium');
+    expect(analyzeComplexity(deeper, { filename: 'a.yaml', scorer: 'linear' }).level).toBe(
+      'medium'
+    );
+    expect(analyzeComplexity(nested, { filename: 'a.yaml', scorer: 'exponential' }).level).toBe(
+      'low'
+    );
+  });
+
+  it('should call a custom scorer with the depths in source order and the histogram', () => {
+    const inputs: ScorerInput[] = [];
+    const result = analyzeComplexity('a\n  b\n    c\n  d\n', {
+      scorer: {
+        id: 'max-depth',
+        score: (input) => {
+          inputs.push(input);
+          return Math.max(0, ...input.depths);
+        },
+      },
+    });
+
+    expect(result).toMatchObject({ scorer: 'max-depth', score: 2, level: 'low' });
+    expect(inputs[0]).toMatchObject({
+      depths: [0, 1, 2, 1],
+      histogram: { 0: 1, 1: 2, 2: 1 },
+      lineCount: 4,
+    });
+  });
+
+  it('should register custom scorers by id', () => {
+    registerScorer({
+      id: 'line-count',
+      description: 'Number of lines',
+      thresholds: { medium: 4, high: 100 },
+      score: ({ lineCount }) => lineCount,
+    });
+
+    expect(listScorers().at(-1)?.description).toBe('Number of lines');
+    expect(analyzeComplexity(nested, { scorer: 'line-count' })).toMatchObject({
+      score: 4,
+      level: 'medium',
+    });
+  });
+
+  it('should throw for an unknown scorer', () => {
+    expect(() => analyzeComplexity(nested, { scorer: 'cubic' })).toThrow('Unknown scorer: cubic');
+  });
+
+  it('should score blocks with the scorer', () => {
+    const code = 'function a() {\n  if (x) {\n    run();\n  }\n}\n';
+    const { blocks } = analyzeComplexity(code, { blocks: true, scorer: 'linear' });
+
+    expect(blocks[0]?.score).toBe(0.8);
+    expect(blocks[0]?.level).toBe('low');
+  });
+
+  it('should expand streamed and incremental depths from the histogram', async () => {
+    const depths: (readonly number[])[] = [];
+    const scorer = {
+      id: 'depths',
+      score: (input: ScorerInput) => {
+        depths.push(input.depths);
+        return input.depths.length;
+      },
+    };
+    const stream = await analyzeComplexityStream(Readable.from([nested]), { scorer });
+    const incremental = createIncrementalAnalyzer('b\n  a\n', { scorer: 'variance' });
+
+    expect(stream).toMatchObject({ scorer: 'depths', score: 4 });
+    expect(depths[0]).toEqual([0, 1, 2, 3]);
+    expect(incremental.result().score).toBe(
+      analyzeComplexity('b\n  a\n', { scorer: 'variance' }).score
+    );
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Scoring formulas that turn measured depths into a complexity score,
+ * with a registry of built-in and custom scorers.
+ */
+
+import type { Thresholds } from './types.js';
+
+/** What a scorer is given about the measured lines */
+export interface ScorerInput {
+  /** Depth of each measured line, in source order. Streamed and incremental
+   * analysis expand them from the histogram, in depth order. */
+  readonly depths: readonly number[];
+  /** Measured lines by depth */
+  readonly histogram: Readonly<Record<number, number>>;
+  readonly lineCount: number;
+}
+
+/** A scoring formula */
+export interface Scorer {
+  /** Unique id, recorded in results as `scorer` */
+  id: string;
+  description?: string;
+  /** Thresholds on the scorer's scale. They replace the language profile's
+   * thresholds, which are calibrated for 'squared'; the user's still apply. */
+  thresholds?: Partial<Thresholds>;
+  /** Score of the measured lines (0 when there are none) */
+  score: (input: ScorerInput) => number;
+}
+
+/** Id of the scorer used when none is given */
+export const DEFAULT_SCORER = 'squared';
+
+/** Σ weight(depth) / lineCount over the histogram */
+function weightedMean(input: ScorerInput, weight: (depth: number) => number): number {
+  if (input.lineCount === 0) return 0;
+  let total = 0;
+  for (const [depth, count] of Object.entries(input.histogram)) {
+    total += count * weight(Number(depth));
+  }
+  return total / input.lineCount;
+}
+
+const BUILTIN_SCORERS: Scorer[] = [
+  {
+    id: 'squared',
+    description: 'Σ(depth²) / lineCount: deeper lines weigh quadratically more',
+    score: (input) => weightedMean(input, (depth) => depth * depth),
+  },
+  {
+    id: 'linear',
+    description: 'Mean depth',
+    thresholds: { medium: 2, high: 3 },
+    score: (input) => weightedMean(input, (depth) => depth),
+  },
+  {
+    id: 'exponential',
+    description: 'Σ(2^depth - 1) / lineCount: each level doubles the weight',
+    thresholds: { medium: 3, high: 8 },
+    score: (input) => weightedMean(input, (depth) => 2 ** depth - 1),
+  },
+  {
+    id: 'variance',
+    description: 'Variance of depth, which correlates with McCabe complexity',
+    thresholds: { medium: 1.5, high: 3 },
+    score: (input) => {
+      const mean = weightedMean(input, (depth) => depth);
+      return weightedMean(input, (depth) => (depth - mean) ** 2);
+    },
+  },
+];
+
+/** Registered scorers by id, in registration order */
+const registry = new Map<string, Scorer>(BUILTIN_SCORERS.map((scorer) => [scorer.id, scorer]));
+
+/**
+ * Register a scorer, or replace the scorer with the same id.
+ *
+ * @example
+ * ```typescript
+ * registerScorer({
+ *   id: 'max-depth',
+ *   thresholds: { medium: 4, high: 6 },
+ *   score: ({ depths }) => Math.max(0, ...depths),
+ * });
+ * analyzeComplexity(code, { scorer: 'max-depth' });
+ * ```
+ */
+export function registerScorer(scorer: Scorer): void {
+  registry.delete(scorer.id);
+  registry.set(scorer.id, scorer);
+}
+
+/**
+ * Whether scorers other than the built-in ones are registered. Worker
+ * threads start with the built-in scorers only.
+ */
+export function hasRegisteredScorers(): boolean {
+  return (
+    registry.size !== BUILTIN_SCORERS.length ||
+    BUILTIN_SCORERS.some((scorer) => registry.get(scorer.id) !== scorer)
+  );
+}
+
+/**
+ * Look up a registered scorer by id.
+ */
+export function getScorer(id: string): Scorer | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List all registered scorers.
+ */
+export function listScorers(): Scorer[] {
+  return [...registry.values()];
+}
+
+/**
+ * Resolve the `scorer` option to a scorer.
+ *
+ * @param scorer - Registered id, a scorer, or undefined for DEFAULT_SCORER
+ * @throws Error if the id is not registered
+ */
+export function resolveScorer(scorer: string | Scorer | undefined): Scorer {
+  if (typeof scorer === 'object') return scorer;
+
+  const id = scorer ?? DEFAULT_SCORER;
+  const registered = registry.get(id);
+  if (!registered) throw new Error(`Unknown scorer: ${id}`);
+  return registered;
+}
+
+/**
+ * Scorer input for measured lines. Without `depths`, they are expanded from
+ * the histogram only if the scorer reads them.
+ */
+export function scorerInput(
+  histogram: Record<number, number>,
+  depths?: readonly number[]
+): ScorerInput {
+  const entries = Object.entries(histogram).map(([depth, count]) => [Number(depth), count]);
+  let expanded = depths;
+
+  return {
+    get depths() {
+      expanded ??= entries
+        .sort(([a = 0], [b = 0]) => a - b)
+        .flatMap(([depth = 0, count = 0]) => Array.from({ length: count }, () => depth));
+      return expanded;
+    },
+    histogram,
+    lineCount: depths?.length ?? entries.reduce((acc, [, count = 0]) => acc + count, 0),
+  };
+}
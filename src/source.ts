@@ -0,0 +1,49 @@
+/**
+ * Source preparation: content checks and language profile selection ahead
+ * of line parsing.
+ */
+
+import type { AnalyzeOptions } from './types.js';
+import type { ParseResult } from './parser.js';
+import type { ContentCheckResult } from './content-checks.js';
+import { parseContent } from './parser.js';
+import { checkContent } from './content-checks.js';
+import { applyLanguageProfile, resolveLanguage } from './languages.js';
+
+/** Every content check turned off (`contentChecks: false`) */
+const NO_CONTENT_CHECKS = { generated: 'off', minified: 'off', binary: 'off' } as const;
+
+/** Parsed source, with the outcome of its content checks */
+export interface SourceParseResult extends ParseResult {
+  /** Language profile used, if any */
+  profile: ReturnType<typeof resolveLanguage>;
+  /** Check that skipped the input; its lines are then empty */
+  skipped?: ContentCheckResult['skipped'];
+  /** Number of lines left out by content checks */
+  excludedLines: number;
+}
+
+/**
+ * Run the content checks on source content, then parse it with the
+ * language profile that the `language` and `filename` options select.
+ *
+ * @returns Parsed lines, detected indent unit, the profile, if any, and
+ *   the outcome of the content checks
+ * @throws Error if the language id is not registered
+ */
+export function parseSource(content: string, options: AnalyzeOptions<string>): SourceParseResult {
+  const checked = checkContent(
+    content,
+    options.contentChecks === false ? NO_CONTENT_CHECKS : options.contentChecks,
+    options.filename
+  );
+  const profile = resolveLanguage(options.language, options.filename);
+  const parsed = parseContent(
+    checked.skipped ? '' : checked.content,
+    applyLanguageProfile(options, profile)
+  );
+
+  const result: SourceParseResult = { ...parsed, profile, excludedLines: checked.excludedLines };
+  if (checked.skipped) result.skipped = checked.skipped;
+  return result;
+}
@@ -4,7 +4,21 @@
  * These are pure functions operating on arrays of numbers.
  */
 
-export interface StatisticalMoments {
+/** Shape of a depth distribution, beyond its mean and variance */
+export interface DistributionShape {
+  /** Skewness (third standardized moment): positive when a few lines nest
+   * much deeper than the rest. 0 when all depths are equal */
+  skewness: number;
+  /** Excess kurtosis (fourth standardized moment - 3): positive for heavy
+   * tails of outlying depths. 0 when all depths are equal */
+  kurtosis: number;
+  /** Depth at each requested percentile (linearly interpolated), e.g. { 90: 3 } */
+  percentiles: Record<number, number>;
+  /** Shannon entropy of the depth histogram, in bits */
+  entropy: number;
+}
+
+export interface StatisticalMoments extends DistributionShape {
   score: number;
   sum: number;
   mean: number;
@@ -14,47 +28,177 @@ export interface StatisticalMoments {
   max: number;
 }
 
+/** Percentiles reported when none are configured */
+export const DEFAULT_PERCENTILES: readonly number[] = [75, 90, 95];
+
+/** Sums of the squared, cubed and fourth-power deviations from the mean */
+interface CentralMomentSums {
+  m2: number;
+  m3: number;
+  m4: number;
+}
+
+function centralMomentSums(
+  entries: Iterable<readonly [depth: number, count: number]>,
+  mean: number
+): CentralMomentSums {
+  const sums = { m2: 0, m3: 0, m4: 0 };
+  for (const [depth, count] of entries) {
+    const diff = depth - mean;
+    const squared = diff * diff;
+    sums.m2 += count * squared;
+    sums.m3 += count * squared * diff;
+    sums.m4 += count * squared * squared;
+  }
+  return sums;
+}
+
+/** Skewness and excess kurtosis from the central moment sums of `total` values */
+function standardizedMoments(
+  total: number,
+  { m2, m3, m4 }: CentralMomentSums
+): Pick<DistributionShape, 'skewness' | 'kurtosis'> {
+  const variance = m2 / total;
+  if (variance === 0) return { skewness: 0, kurtosis: 0 };
+  return {
+    skewness: m3 / total / variance ** 1.5,
+    kurtosis: m4 / total / variance ** 2 - 3,
+  };
+}
+
 /**
- * Compute all statistical moments from an array of depths.
+ * Percentiles of `total` sorted values, interpolating between the values
+ * at the closest ranks.
  *
- * @param depths - Array of indentation depth values
- * @returns Statistical moments (score, sum, mean, variance, stdDev, median, max)
+ * @param valueAt - Value at a 0-indexed position among the sorted values
  */
-export function computeStatistics(depths: number[]): StatisticalMoments {
-  if (depths.length === 0) {
-    return {
-      score: 0,
-      sum: 0,
-      mean: 0,
-      variance: 0,
-      stdDev: 0,
-      median: 0,
-      max: 0,
-    };
+function computePercentiles(
+  total: number,
+  percentiles: readonly number[],
+  valueAt: (position: number) => number
+): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (const percentile of percentiles) {
+    if (!(percentile >= 0 && percentile <= 100)) {
+      throw new RangeError(`Percentile must be between 0 and 100: ${percentile}`);
+    }
+    const rank = (percentile / 100) * (total - 1);
+    const lower = valueAt(Math.floor(rank));
+    result[percentile] = lower + (valueAt(Math.ceil(rank)) - lower) * (rank - Math.floor(rank));
+  }
+  return result;
+}
+
+function computeEntropy(total: number, counts: Iterable<number>): number {
+  let entropy = 0;
+  for (const count of counts) {
+    const p = count / total;
+    if (p > 0) entropy -= p * Math.log2(p);
+  }
+  // Avoid -0 for single-depth distributions
+  return entropy + 0;
+}
+
+function emptyStatistics(percentiles: readonly number[]): StatisticalMoments {
+  return {
+    score: 0,
+    sum: 0,
+    mean: 0,
+    variance: 0,
+    stdDev: 0,
+    median: 0,
+    max: 0,
+    skewness: 0,
+    kurtosis: 0,
+    percentiles: computePercentiles(1, percentiles, () => 0),
+    entropy: 0,
+  };
+}
+
+/** Depth counts sorted by depth, with the totals over them */
+interface DepthCounts {
+  entries: readonly (readonly [depth: number, count: number])[];
+  total: number;
+  sum: number;
+  sumSquares: number;
+}
+
+/** Depths of a histogram with their counts, skipping empty ones, sorted by depth */
+function sortedEntries(histogram: Record<number, number>): DepthCounts['entries'] {
+  return Object.entries(histogram)
+    .map(([depth, count]) => [Number(depth), count] as const)
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a - b);
+}
+
+function countStatistics(
+  { entries, total, sum, sumSquares }: DepthCounts,
+  percentiles: readonly number[]
+): StatisticalMoments {
+  if (total === 0) {
+    return emptyStatistics(percentiles);
   }
 
-  const sum = depths.reduce((acc, d) => acc + d, 0);
-  const mean = sum / depths.length;
+  const mean = sum / total;
+  const moments = centralMomentSums(entries, mean);
+  const variance = moments.m2 / total;
 
-  const squaredDiffs = depths.map((d) => (d - mean) ** 2);
-  const variance = squaredDiffs.reduce((acc, d) => acc + d, 0) / depths.length;
-  const stdDev = Math.sqrt(variance);
+  // Depth at a 0-indexed position among the sorted depths
+  const depthAt = (position: number): number => {
+    let seen = 0;
+    const entry = entries.find(([, count]) => (seen += count) > position);
+    return entry?.[0] ?? 0;
+  };
+  const mid = Math.floor(total / 2);
+  const median = total % 2 === 0 ? (depthAt(mid - 1) + depthAt(mid)) / 2 : depthAt(mid);
 
-  const sorted = [...depths].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  const median =
-    sorted.length % 2 === 0
-      ? ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2
-      : (sorted[mid] ?? 0);
+  return {
+    // Complexity score: Σ(depth²) / lineCount
+    // Deeper nesting contributes exponentially more, like cognitive complexity
+    score: sumSquares / total,
+    sum,
+    mean,
+    variance,
+    stdDev: Math.sqrt(variance),
+    median,
+    max: entries.at(-1)?.[0] ?? 0,
+    ...standardizedMoments(total, moments),
+    percentiles: computePercentiles(total, percentiles, depthAt),
+    entropy: computeEntropy(
+      total,
+      entries.map(([, count]) => count)
+    ),
+  };
+}
 
-  const max = sorted.at(-1) ?? 0;
+/**
+ * Compute all statistical moments from an array of depths.
+ *
+ * The depths are read once, into their sum, sum of squares and histogram;
+ * the median and percentiles are read off the histogram's cumulative counts.
+ *
+ * @param depths - Array of indentation depth values
+ * @param percentiles - Percentiles to report, from 0 to 100. Default: DEFAULT_PERCENTILES
+ * @returns Statistical moments (score, sum, mean, variance, stdDev, median, max)
+ *   and the shape of the distribution
+ * @throws RangeError for percentiles outside 0-100
+ */
+export function computeStatistics(
+  depths: number[],
+  percentiles: readonly number[] = DEFAULT_PERCENTILES
+): StatisticalMoments {
+  const histogram: Record<number, number> = {};
+  let sum = 0;
+  let sumSquares = 0;
 
-  // Complexity score: Σ(depth²) / lineCount
-  // Deeper nesting contributes exponentially more, like cognitive complexity
-  const sumSquaredDepths = depths.reduce((acc, d) => acc + d * d, 0);
-  const score = sumSquaredDepths / depths.length;
+  for (const depth of depths) {
+    histogram[depth] = (histogram[depth] ?? 0) + 1;
+    sum += depth;
+    sumSquares += depth * depth;
+  }
 
-  return { score, sum, mean, variance, stdDev, median, max };
+  const entries = sortedEntries(histogram);
+  return countStatistics({ entries, total: depths.length, sum, sumSquares }, percentiles);
 }
 
 /**
@@ -72,3 +216,33 @@ export function buildHistogram(depths: number[]): Record<number, number> {
 
   return histogram;
 }
+
+/**
+ * Compute statistical moments from a depth histogram.
+ *
+ * Gives the same moments as computeStatistics on the depths the histogram
+ * counts, without holding one value per line.
+ *
+ * @param histogram - Record mapping depth to count of occurrences
+ * @param percentiles - Percentiles to report, from 0 to 100. Default: DEFAULT_PERCENTILES
+ * @returns Statistical moments (score, sum, mean, variance, stdDev, median, max)
+ *   and the shape of the distribution
+ * @throws RangeError for percentiles outside 0-100
+ */
+export function computeHistogramStatistics(
+  histogram: Record<number, number>,
+  percentiles: readonly number[] = DEFAULT_PERCENTILES
+): StatisticalMoments {
+  const entries = sortedEntries(histogram);
+  let total = 0;
+  let sum = 0;
+  let sumSquares = 0;
+
+  for (const [depth, count] of entries) {
+    total += count;
+    sum += depth * count;
+    sumSquares += depth * depth * count;
+  }
+
+  return countStatistics({ entries, total, sum, sumSquares }, percentiles);
+}
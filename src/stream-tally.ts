@@ -0,0 +1,164 @@
+/**
+ * Running tallies of indentation for streamed input, reduced to the
+ * statistics of a result without keeping one entry per line.
+ */
+
+import type { ParseOptions } from './parser.js';
+import type { ParsedDiffFile } from './diff-parser.js';
+import type { ResultSummary } from './result-builder.js';
+import type { LineClass } from './line-classifier.js';
+import type { IndentDetector } from './indent-detector.js';
+import { createLineClassifier } from './line-classifier.js';
+import { createIndentDetector } from './indent-detector.js';
+import { computeHistogramStatistics } from './statistics.js';
+import { measuredLines } from './result-builder.js';
+
+/** Takes lines or files one at a time, then summarizes them */
+export interface Tally<T> {
+  add: (item: T) => void;
+  /** Summary with the given percentiles of depth (default: DEFAULT_PERCENTILES) */
+  summary: (percentiles?: readonly number[]) => ResultSummary;
+}
+
+interface ContentState {
+  multilineStrings: NonNullable<ParseOptions['multilineStrings']>;
+  detector: IndentDetector;
+  /** Comment lines sample the indent unit outside stateful mode, as in parseContent */
+  sampleComments: boolean;
+  /** Measured lines by indent key */
+  widths: Map<string, number>;
+  excludedStringLines: number;
+  /** Indent key of the line that opened the current multi-line string */
+  openerKey: string;
+}
+
+/** Leading tabs and spaces of a line as a key: '1:2' is one tab and two spaces */
+function indentKey(line: string): string {
+  const indent = /^[\t ]*/.exec(line)?.[0] ?? '';
+  const tabs = indent.split('\t').length - 1;
+  return `${tabs}:${indent.length - tabs}`;
+}
+
+/** Depth of an indent key, as computeIndentDepth gives for its line */
+function keyDepth(key: string, indentUnit: number, tabWidth = indentUnit): number {
+  const [tabs = 0, spaces = 0] = key.split(':').map(Number);
+  return Math.floor((tabs * tabWidth + spaces) / indentUnit);
+}
+
+/** Tally one line the way parseContent measures it */
+function tallyLine(state: ContentState, line: string, lineClass: LineClass): void {
+  const opener = state.openerKey;
+  if (lineClass.opensString) state.openerKey = indentKey(line);
+  if (line.trim().length === 0) return;
+
+  let key: string;
+  if (lineClass.stringBody && state.multilineStrings !== 'include') {
+    state.excludedStringLines++;
+    if (state.multilineStrings === 'skip') return;
+    key = opener;
+  } else if (lineClass.comment) {
+    if (state.sampleComments) state.detector.add(line);
+    return;
+  } else {
+    state.detector.add(line);
+    key = indentKey(line);
+  }
+
+  state.widths.set(key, (state.widths.get(key) ?? 0) + 1);
+}
+
+/**
+ * Tally the lines of one file in source order.
+ *
+ * Lines are counted by raw indentation and converted to depths once the
+ * indent unit is known, so the summary matches parseContent without
+ * continuation normalization.
+ */
+export function createContentTally(options: ParseOptions): Tally<string> {
+  const classify = createLineClassifier(options);
+  const state: ContentState = {
+    multilineStrings: options.multilineStrings ?? 'include',
+    detector: createIndentDetector(),
+    sampleComments: options.commentMode !== 'stateful',
+    widths: new Map(),
+    excludedStringLines: 0,
+    openerKey: indentKey(''),
+  };
+
+  return {
+    add: (line) => tallyLine(state, line, classify(line)),
+    summary: (percentiles) => {
+      const indentUnit = options.indentUnit ?? state.detector.unit(1, options.tabWidth);
+      const depthHistogram: Record<number, number> = {};
+      let lineCount = 0;
+
+      for (const [key, count] of state.widths) {
+        const depth = keyDepth(key, indentUnit, options.tabWidth);
+        depthHistogram[depth] = (depthHistogram[depth] ?? 0) + count;
+        lineCount += count;
+      }
+
+      return {
+        stats: computeHistogramStatistics(depthHistogram, percentiles),
+        depthHistogram,
+        lineCount,
+        excludedStringLines: state.excludedStringLines,
+      };
+    },
+  };
+}
+
+/**
+ * Tally the parsed files of a diff, keeping only their depths.
+ *
+ * @returns The tally, and the language profile and threshold directives
+ *   shared by every file so far
+ */
+export function createDiffTally(): Tally<ParsedDiffFile> & {
+  profile: () => ParsedDiffFile['profile'];
+  thresholdOverrides: () => ParsedDiffFile['thresholdOverrides'];
+} {
+  const depthHistogram: Record<number, number> = {};
+  let lineCount = 0;
+  let excludedStringLines = 0;
+  let suppressedLines = 0;
+  let files = 0;
+  let profile: ParsedDiffFile['profile'];
+  let overrides: ParsedDiffFile['thresholdOverrides'];
+  let shared = true;
+  let sharedOverrides = true;
+
+  const add = (file: ParsedDiffFile): void => {
+    if (files++ === 0) {
+      profile = file.profile;
+      overrides = file.thresholdOverrides;
+    } else {
+      if (file.profile !== profile) shared = false;
+      if (JSON.stringify(file.thresholdOverrides) !== JSON.stringify(overrides)) {
+        sharedOverrides = false;
+      }
+    }
+
+    for (const line of file.lines) {
+      if (line.suppressed) suppressedLines++;
+      else if (line.stringBody !== undefined) excludedStringLines++;
+    }
+    for (const line of measuredLines(file.lines)) {
+      depthHistogram[line.depth] = (depthHistogram[line.depth] ?? 0) + 1;
+      lineCount++;
+    }
+  };
+
+  return {
+    add,
+    summary: (percentiles) => ({
+      stats: computeHistogramStatistics(depthHistogram, percentiles),
+      depthHistogram,
+      lineCount,
+      excludedStringLines,
+      suppressedLines,
+    }),
+    profile: () => (shared ? profile : undefined),
+    thresholdOverrides: () => (sharedOverrides ? overrides : undefined),
+  };
+}
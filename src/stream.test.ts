@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import {
+  analyzeComplexity,
+  analyzeComplexityStream,
+  analyzeDiffComplexity,
+  analyzeDiffComplexityStream,
+} from './index.js';
+import type { ComplexityResultVerbose } from './index.js';
+
+async function* chunks(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+}
+
+function expectSameResult(streamed: ComplexityResultVerbose, full: ComplexityResultVerbose) {
+  expect(streamed).toEqual({
+    ...full,
+    variance: expect.closeTo(full.variance, 10),
+    stdDev: expect.closeTo(full.stdDev, 10),
+    skewness: expect.closeTo(full.skewness, 10),
+    kurtosis: expect.closeTo(full.kurtosis, 10),
+  });
+}
+
+const CODE = `import { load } from './load';
+
+/**
+ * Process items.
+ */
+export function process(items) {
+  for (const item of items) {
+    if (item.valid) {
+      // handle it
+      try {
+        load(item);
+      } catch (error) {
+        console.error(error);
+      }
+    }
+  }
+  const query = \`
+      SELECT *
+        FROM items
+  \`;
+  return query;
+}
+`;
+
+describe('analyzeComplexityStream', () => {
+  it.each([1, 7, 64, CODE.length])(
+    'should match analyzeComplexity in chunks of %i',
+    async (size) => {
+      expectSameResult(
+        await analyzeComplexityStream(chunks(CODE, size)),
+        analyzeComplexity(CODE, { verbose: true })
+      );
+    }
+  );
+
+  it.each(['include', 'skip', 'pin'] as const)(
+    'should match with a language profile and multilineStrings: %s',
+    async (multilineStrings) => {
+      const options = { filename: 'process.ts', multilineStrings };
+
+      expectSameResult(
+        await analyzeComplexityStream(chunks(CODE, 16), options),
+        analyzeComplexity(CODE, { ...options, verbose: true })
+      );
+    }
+  );
+
+  it.each(['pattern', 'stateful'] as const)(
+    'should match when comment lines are indented off the code, in %s mode',
+    async (commentMode) => {
+      const content =
+        'a\n    b\n        c\n    // x\n      // y\n        // z\n          // w\n            // v\n    d\n';
+
+      expectSameResult(
+        await analyzeComplexityStream(chunks(content, 6), { commentMode }),
+        analyzeComplexity(content, { commentMode, verbose: true })
+      );
+    }
+  );
+
+  it('should match for tab-indented Python with docstrings', async () => {
+    const content = 'def run():\n\t"""\n\tDocs.\n\t"""\n\tif x:\n\t\treturn 1\n\treturn 0\n';
+
+    expectSameResult(
+      await analyzeComplexityStream(chunks(content, 5), { language: 'python' }),
+      analyzeComplexity(content, { language: 'python', verbose: true })
+    );
+  });
+
+  it('should compute the median from the histogram', async () => {
+    const result = await analyzeComplexityStream(chunks('a\n  b\n    c\n      d', 3));
+
+    expect(result.median).toBe(1.5);
+    expect(result.depthHistogram).toEqual({ 0: 1, 1: 1, 2: 1, 3: 1 });
+  });
+
+  it('should read a Readable of bytes, including split characters', async () => {
+    const content = 'if (a) {\n  say("héllo wörld");\n}';
+    const bytes = Buffer.from(content);
+    const source = Readable.from([bytes.subarray(0, 20), bytes.subarray(20)]);
+    const result = await analyzeComplexityStream(source);
+
+    expectSameResult(result, analyzeComplexity(content, { verbose: true }));
+  });
+
+  it('should handle empty input', async () => {
+    const result = await analyzeComplexityStream(chunks('', 1));
+
+    expect(result).toMatchObject({ score: 0, lineCount: 0, median: 0, level: 'low' });
+  });
+});
+
+describe('analyzeDiffComplexityStream', () => {
+  const diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,6 @@
+ function a() {
+-  return 1;
++  if (x) {
++    // comment
++    return 1;
++  }
+ }
+diff --git a/lib/b.py b/lib/b.py
+new file mode 100644
+--- /dev/null
++++ b/lib/b.py
+@@ -0,0 +1,4 @@
++def b():
++    if y:
++        return 2
++    return 3
+`;
+
+  it.each(['additions', 'deletions', 'both'] as const)(
+    'should match analyzeDiffComplexity for %s',
+    async (include) => {
+      expectSameResult(
+        await analyzeDiffComplexityStream(chunks(diff, 10), { include }),
+        analyzeDiffComplexity(diff, { include, verbose: true })
+      );
+    }
+  );
+
+  it('should apply language profiles per file', async () => {
+    const streamed = await analyzeDiffComplexityStream(chunks(diff, 32), { language: 'auto' });
+
+    expectSameResult(streamed, analyzeDiffComplexity(diff, { language: 'auto', verbose: true }));
+    expect(streamed.language).toBeUndefined();
+  });
+
+  it('should report a language shared by every file', async () => {
+    const streamed = await analyzeDiffComplexityStream(chunks(diff, 32), { language: 'python' });
+
+    expect(streamed.language).toBe('python');
+  });
+});
@@ -5,38 +5,56 @@
  * statistical moments of indentation as complexity proxies.
  */
 
-/** Complexity level */
+import type { DistributionShape } from './statistics.js';
+import type { AssessmentOptions } from './assessment.js';
+import type { ContentCheck, ContentCheckOptions } from './content-checks.js';
+
+/** Complexity level of the default scale (see `levels` for custom ones) */
 export type ComplexityLevel = 'low' | 'medium' | 'high';
 
+/** Side of a diff a line number refers to */
+export type DiffSide = 'old' | 'new';
+
 /** Line-by-line indentation detail */
 export interface LineDetail {
-  /** 1-indexed line number in source */
+  /** 1-indexed line number in source (for diffs: in the old or new file, see `side`) */
   line: number;
   /** Logical indentation depth */
   depth: number;
   /** Line content (trimmed) */
   content: string;
+  /** Diff only: path of the file the line belongs to */
+  file?: string;
+  /** Diff only: 'old' for deleted lines, 'new' for added lines */
+  side?: DiffSide;
+  /** Diff only: 0-indexed hunk within the file */
+  hunk?: number;
 }
 
 /**
  * Simple complexity result (default).
  * This is what most consumers need.
  */
-export interface ComplexityResult {
-  /** Primary complexity score: Σ(depth²) / lineCount.
-   * Deeper nesting contributes exponentially more. */
+export interface ComplexityResult<L extends string = ComplexityLevel> {
+  /** Primary complexity score: Σ(depth²) / lineCount with the default scorer */
   score: number;
-  /** Complexity level based on thresholds */
-  level: ComplexityLevel;
+  /** Id of the scorer that computed the score */
+  scorer: string;
+  /** Complexity level based on thresholds, or on `levels` */
+  level: L;
   /** Human-readable explanation */
   reason: string;
+  /** Content check that skipped the input (see `contentChecks`); the
+   * result then scores zero and `reason` says why */
+  skipped?: ContentCheck;
 }
 
 /**
  * Detailed complexity result (when verbose: true).
  * Includes all statistical metrics for debugging/analysis.
  */
-export interface ComplexityResultVerbose extends ComplexityResult {
+export interface ComplexityResultVerbose<L extends string = ComplexityLevel>
+  extends ComplexityResult<L>, DistributionShape {
   /** Number of non-empty, non-comment lines analyzed */
   lineCount: number;
   /** Maximum indentation depth */
@@ -53,14 +71,56 @@ export interface ComplexityResultVerbose extends ComplexityResult {
   sum: number;
   /** Distribution of indent depths: depth -> count */
   depthHistogram: Record<number, number>;
+  /** Lines inside multi-line strings that were skipped or pinned (see `multilineStrings`) */
+  excludedStringLines: number;
+  /** Lines left out by `indent-complexity-disable` directives */
+  suppressedLines: number;
+  /** Lines left out by content checks (see `contentChecks`), if any */
+  excludedLines?: number;
+  /** Thresholds set by an `indent-complexity thresholds` directive, by level name */
+  thresholdOverrides?: Record<string, number>;
+  /** Id of the language profile used, if any */
+  language?: string;
 }
 
 /** Result with line-by-line details (when includeLines: true) */
-export interface ComplexityResultWithLines extends ComplexityResultVerbose {
+export interface ComplexityResultWithLines<
+  L extends string = ComplexityLevel,
+> extends ComplexityResultVerbose<L> {
   /** Line-by-line indentation details */
   lines: LineDetail[];
 }
 
+/** Complexity of one block of code (from the `blocks` option) */
+export interface BlockComplexity<L extends string = ComplexityLevel> extends DistributionShape {
+  /** 1-indexed line of the block's header */
+  startLine: number;
+  /** 1-indexed last line of the block */
+  endLine: number;
+  /** Header line content (trimmed), e.g. the function signature */
+  header: string;
+  /** Number of lines analyzed in the block, including the header */
+  lineCount: number;
+  /** Score of the block's lines, from the result's scorer */
+  score: number;
+  /** Complexity level of the block's score */
+  level: L;
+  max: number;
+  mean: number;
+  variance: number;
+  stdDev: number;
+  median: number;
+  sum: number;
+}
+
+/** Result with per-block scores (when blocks is set) */
+export interface ComplexityResultWithBlocks<
+  L extends string = ComplexityLevel,
+> extends ComplexityResultVerbose<L> {
+  /** Blocks sorted by score, worst first */
+  blocks: BlockComplexity<L>[];
+}
+
 /** Score thresholds for complexity levels */
 export interface Thresholds {
   /** Score at or above this is 'medium' complexity */
@@ -69,27 +129,135 @@ export interface Thresholds {
   high: number;
 }
 
+/** Block comment delimiters */
+export interface BlockCommentDelimiter {
+  open: string;
+  close: string;
+  /** Only a comment when it opens at the start of a line (e.g. Python docstrings) */
+  lineStart?: boolean;
+}
+
+/** Comment syntax for the stateful comment mode */
+export interface CommentSyntax {
+  /** Prefixes that comment out the rest of the line */
+  line: string[];
+  /** Block comment delimiters, tracked across lines */
+  block: BlockCommentDelimiter[];
+}
+
+/** String literal delimiters */
+export interface StringDelimiter {
+  open: string;
+  close: string;
+  /** Can span several lines (e.g. template literals, triple-quoted strings) */
+  multiline?: boolean;
+  /** `open` is a heredoc operator (e.g. '<<'): the string closes on a line
+   * starting with the word that follows it. Implies multiline. */
+  heredoc?: boolean;
+}
+
+/** Language-specific syntax and thresholds */
+export interface LanguageProfile {
+  /** Id used by the `language` option */
+  id: string;
+  /** File extensions including the dot, e.g. '.ts' */
+  extensions: string[];
+  /** Exact file names, e.g. 'Makefile' */
+  filenames?: string[];
+  /** Comment syntax, detected in the stateful comment mode */
+  comments: CommentSyntax;
+  /** String literal delimiters; comment delimiters inside strings are ignored */
+  strings: StringDelimiter[];
+  /** Default thresholds for the language (user thresholds take precedence) */
+  thresholds?: Partial<Thresholds>;
+}
+
 /** Options for analyzeComplexity */
-export interface AnalyzeOptions {
+export interface AnalyzeOptions<L extends string = ComplexityLevel> extends AssessmentOptions<L> {
   /** Regex to identify comment lines. Set to null to include comments. */
   commentPattern?: RegExp | null;
-  /** Custom thresholds for assessment levels */
-  thresholds?: Partial<Thresholds>;
+  /** 'pattern' tests each line against commentPattern; 'stateful' tracks
+   * block comments across lines using commentSyntax. Default: 'pattern' */
+  commentMode?: 'pattern' | 'stateful';
+  /** Comment syntax for the stateful mode. Default: DEFAULT_COMMENT_SYNTAX */
+  commentSyntax?: Partial<CommentSyntax>;
+  /** Language profile id, or 'auto' to select one from `filename`
+   * (diffs: from each file's path). Default: 'auto' when `filename` is set */
+  language?: string;
+  /** File name used to select a language profile (ignored for diffs) */
+  filename?: string;
+  /** Lines inside multi-line strings (template literals, triple-quoted strings,
+   * heredocs): 'include' measures them as code, 'skip' leaves them out, 'pin'
+   * gives them the depth of the line that opened the string. Default: 'include' */
+  multilineStrings?: 'include' | 'skip' | 'pin';
+  /** String delimiters. Default: the language profile's, else DEFAULT_STRING_DELIMITERS */
+  stringDelimiters?: StringDelimiter[];
+  /** Give continuation lines (wrapped arguments, chained calls, aligned
+   * parameters) the depth of their statement. Default: false */
+  normalizeContinuations?: boolean;
+  /** Generated, minified and binary content checks run before parsing;
+   * false turns them all off. Not run on diffs, streams or incremental
+   * analysis. Default: see ContentCheckOptions */
+  contentChecks?: ContentCheckOptions | false;
+  /** Spaces per indent level, when detection gets it wrong. Default: detected */
+  indentUnit?: number;
+  /** Columns a tab advances. Default: one indent level */
+  tabWidth?: number;
+  /** Segment the code into blocks (functions, classes, methods) and score
+   * each one (implies verbose). A number sets the depth of block header
+   * lines, e.g. 1 for methods inside a class; true uses the shallowest
+   * depth. analyzeComplexity only. Default: false */
+  blocks?: boolean | number;
+  /** Percentiles of depth in verbose results, from 0 to 100. Default: [75, 90, 95] */
+  percentiles?: number[];
   /** Return detailed statistics (variance, max, histogram, etc.) */
   verbose?: boolean;
   /** Include line-by-line detail in output (implies verbose) */
   includeLines?: boolean;
 }
 
+/** Full content of a file before and after a change */
+export interface DiffFileContents {
+  /** Content before the change (anchors deleted lines) */
+  old?: string;
+  /** Content after the change (anchors added lines) */
+  new?: string;
+}
+
 /** Options for analyzeDiffComplexity */
 export interface DiffOptions extends AnalyzeOptions {
   /** Which lines to analyze from the diff. Default: 'additions' */
   include?: 'additions' | 'deletions' | 'both';
+  /** Also use unchanged hunk context lines to detect the indent unit. Default: false */
+  anchorToContext?: boolean;
+  /** Full file contents keyed by diff path (the new path for renames).
+   * When present, the indent unit of each side comes from its full content. */
+  fileContents?: Record<string, DiffFileContents>;
 }
 
-/** Internal representation of a parsed line */
-export interface ParsedLine {
-  lineNumber: number;
-  depth: number;
-  content: string;
+/** How a file was changed in a diff */
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+/** Complexity result for a single file in a diff */
+export interface FileComplexityResult<T extends ComplexityResult = ComplexityResult> {
+  /** Path after the change, or the old path for deleted files */
+  path: string;
+  /** Path before the change (null for added files) */
+  oldPath: string | null;
+  /** Path after the change (null for deleted files) */
+  newPath: string | null;
+  /** How the file was changed */
+  status: DiffFileStatus;
+  /** Binary files carry no lines and always score zero */
+  binary: boolean;
+  /** Complexity of this file's changed lines */
+  result: T;
+}
+
+/** Per-file breakdown of a diff (from analyzeDiffComplexityByFile) */
+export interface DiffComplexityByFile<T extends ComplexityResult = ComplexityResult> {
+  /** One entry per file, in diff order */
+  files: FileComplexityResult<T>[];
+  /** Complexity of all changed lines across every file */
+  aggregate: T;
 }
@@ -0,0 +1,284 @@
+/**
+ * Unified diff format: splitting into per-file sections and resolving
+ * hunk lines to file positions.
+ *
+ * Understands `git diff` extended headers (new/deleted files, renames,
+ * copies, binary markers) as well as plain `diff -u` output.
+ */
+
+import type { DiffFileStatus } from './types.js';
+
+/** One file's section of a unified diff */
+export interface DiffFile {
+  /** The new path, falling back to the old one ('' when the diff has no headers) */
+  path: string;
+  /** Path before the change (null for added files) */
+  oldPath: string | null;
+  /** Path after the change (null for deleted files) */
+  newPath: string | null;
+  status: DiffFileStatus;
+  binary: boolean;
+  /** Hunk headers and body lines (`+`, `-`, ` `, `\`) */
+  lines: string[];
+}
+
+/** A hunk body line with its position in the old and new file */
+export interface DiffLine {
+  kind: 'addition' | 'deletion' | 'context';
+  /** Line content without the diff marker */
+  text: string;
+  /** 1-indexed line in the old file (null for additions) */
+  oldLine: number | null;
+  /** 1-indexed line in the new file (null for deletions) */
+  newLine: number | null;
+  /** 0-indexed hunk within the file */
+  hunk: number;
+}
+
+const DEV_NULL = '/dev/null';
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Line ranges from a `@@ -a,b +c,d @@` hunk header */
+export interface HunkRange {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+interface HunkState {
+  oldRemaining: number;
+  newRemaining: number;
+}
+
+function createFile(): DiffFile {
+  return { path: '', oldPath: null, newPath: null, status: 'modified', binary: false, lines: [] };
+}
+
+function stripPrefix(path: string, prefix: 'a/' | 'b/'): string | null {
+  const clean =
+    path
+      .split('\t')[0]
+      ?.trim()
+      .replace(/^"(.*)"$/, '$1') ?? '';
+  if (clean === DEV_NULL) return null;
+  return clean.startsWith(prefix) ? clean.slice(prefix.length) : clean;
+}
+
+function parseGitHeader(line: string, file: DiffFile): void {
+  const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+  if (!match) return;
+  file.oldPath = match[1] ?? null;
+  file.newPath = match[2] ?? null;
+}
+
+type HeaderHandler = (value: string, file: DiffFile) => void;
+
+const HEADER_HANDLERS: [prefix: string, handler: HeaderHandler][] = [
+  ['--- ', (value, file) => (file.oldPath = stripPrefix(value, 'a/'))],
+  ['+++ ', (value, file) => (file.newPath = stripPrefix(value, 'b/'))],
+  ['new file mode', (_, file) => (file.status = 'added')],
+  ['deleted file mode', (_, file) => (file.status = 'deleted')],
+  ['rename from ', (value, file) => Object.assign(file, { status: 'renamed', oldPath: value })],
+  ['rename to ', (value, file) => Object.assign(file, { status: 'renamed', newPath: value })],
+  ['copy from ', (value, file) => Object.assign(file, { status: 'copied', oldPath: value })],
+  ['copy to ', (value, file) => Object.assign(file, { status: 'copied', newPath: value })],
+  ['Binary files ', (_, file) => (file.binary = true)],
+  ['GIT binary patch', (_, file) => (file.binary = true)],
+  ['index ', () => {}],
+  ['old mode ', () => {}],
+  ['new mode ', () => {}],
+  ['similarity index ', () => {}],
+  ['dissimilarity index ', () => {}],
+];
+
+/**
+ * Apply an extended header line to the current file.
+ *
+ * @returns true if the line was recognized as a header
+ */
+function applyHeader(line: string, file: DiffFile): boolean {
+  const entry = HEADER_HANDLERS.find(([prefix]) => line.startsWith(prefix));
+  if (!entry) return false;
+
+  const [prefix, handler] = entry;
+  handler(line.slice(prefix.length), file);
+  return true;
+}
+
+function resolveStatus(file: DiffFile): DiffFile {
+  if (file.status === 'modified') {
+    if (file.oldPath === null && file.newPath !== null) file.status = 'added';
+    else if (file.newPath === null && file.oldPath !== null) file.status = 'deleted';
+    else if (file.oldPath !== file.newPath) file.status = 'renamed';
+  }
+  if (file.status === 'added') file.oldPath = null;
+  if (file.status === 'deleted') file.newPath = null;
+  file.path = file.newPath ?? file.oldPath ?? '';
+  return file;
+}
+
+/**
+ * Parse the line ranges of a hunk header.
+ *
+ * Omitted counts default to 1, as in `@@ -3 +3 @@`.
+ *
+ * @returns Hunk ranges, or null if the line is not a well-formed header
+ */
+export function parseHunkHeader(line: string): HunkRange | null {
+  const match = line.match(HUNK_HEADER);
+  if (!match) return null;
+
+  return {
+    oldStart: Number(match[1]),
+    oldLines: Number(match[2] ?? 1),
+    newStart: Number(match[3]),
+    newLines: Number(match[4] ?? 1),
+  };
+}
+
+function startHunk(line: string): HunkState {
+  const range = parseHunkHeader(line);
+  return {
+    oldRemaining: range?.oldLines ?? Infinity,
+    newRemaining: range?.newLines ?? Infinity,
+  };
+}
+
+function consumeHunkLine(line: string, hunk: HunkState): void {
+  if (line.startsWith('+')) {
+    hunk.newRemaining--;
+  } else if (line.startsWith('-')) {
+    hunk.oldRemaining--;
+  } else if (!line.startsWith('\\')) {
+    hunk.oldRemaining--;
+    hunk.newRemaining--;
+  }
+}
+
+function isHunkOpen(hunk: HunkState | null): hunk is HunkState {
+  return hunk !== null && (hunk.oldRemaining > 0 || hunk.newRemaining > 0);
+}
+
+function hasContent(file: DiffFile): boolean {
+  return file.oldPath !== null || file.newPath !== null || file.lines.some((line) => line !== '');
+}
+
+/** Splits a unified diff fed one line at a time */
+export interface DiffSplitter {
+  push: (line: string) => void;
+  /** Emit the last file */
+  end: () => void;
+}
+
+/**
+ * Create a splitter that emits each file's section as soon as the next
+ * file starts, so only one file is held at a time.
+ *
+ * @param onFile - Called with each file, in diff order
+ */
+export function createDiffSplitter(onFile: (file: DiffFile) => void): DiffSplitter {
+  let current: DiffFile | null = null;
+  let hunk: HunkState | null = null;
+  let inHeader = false;
+
+  const end = (): void => {
+    if (current && hasContent(current)) onFile(resolveStatus(current));
+    current = null;
+  };
+
+  const startFile = (): DiffFile => {
+    end();
+    hunk = null;
+    inHeader = true;
+    return createFile();
+  };
+
+  const push = (line: string): void => {
+    if (isHunkOpen(hunk)) {
+      consumeHunkLine(line, hunk);
+      current?.lines.push(line);
+      return;
+    }
+
+    if (line.startsWith('diff ')) {
+      current = startFile();
+      parseGitHeader(line, current);
+      return;
+    }
+
+    if (line.startsWith('--- ') && !inHeader) {
+      current = startFile();
+    }
+
+    current ??= startFile();
+
+    if (line.startsWith('@@')) {
+      inHeader = false;
+      hunk = startHunk(line);
+      current.lines.push(line);
+    } else if (!(inHeader && applyHeader(line, current))) {
+      current.lines.push(line);
+    }
+  };
+
+  return { push, end };
+}
+
+/**
+ * Split a unified diff into per-file sections.
+ *
+ * Content without any file header (e.g. a bare hunk) is returned as a
+ * single file with null paths.
+ *
+ * @param diff - Unified diff content
+ * @returns Files in the order they appear in the diff
+ */
+export function splitDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const splitter = createDiffSplitter((file) => files.push(file));
+
+  for (const line of diff.split('\n')) splitter.push(line);
+  splitter.end();
+
+  return files;
+}
+
+/**
+ * Resolve the body lines of a diff file to old/new file positions.
+ *
+ * Positions start from each hunk header and advance through context,
+ * addition and deletion lines. Hunk headers and `\ No newline` markers
+ * are consumed without producing a line.
+ *
+ * @param lines - Hunk headers and body lines of one file
+ * @returns Body lines with their positions
+ */
+export function readDiffLines(lines: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let hunk = -1;
+
+  for (const line of lines) {
+    if (line.startsWith('@@')) {
+      const range = parseHunkHeader(line);
+      oldLine = range?.oldStart ?? oldLine;
+      newLine = range?.newStart ?? newLine;
+      hunk++;
+      continue;
+    }
+    if (line.startsWith('\\')) continue;
+
+    const base = { text: line.slice(1), hunk: Math.max(hunk, 0) };
+    if (line.startsWith('+')) {
+      result.push({ ...base, kind: 'addition', oldLine: null, newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      result.push({ ...base, kind: 'deletion', oldLine: oldLine++, newLine: null });
+    } else {
+      result.push({ ...base, kind: 'context', oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return result;
+}
@@ -1,7 +1,8 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  // The project worker is started from its own file
+  entry: ['src/index.ts', 'src/cli.ts', 'src/lsp.ts', 'src/project-thread.ts'],
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,
@@ -10,4 +11,6 @@ export default defineConfig({
   outDir: 'dist',
   splitting: false,
   treeshake: true,
+  // import.meta.url locates the project worker in the CommonJS build too
+  shims: true,
 });